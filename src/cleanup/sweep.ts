@@ -3,20 +3,31 @@ import {
   formatEther,
   type JsonRpcProvider,
   type HDNodeWallet,
+  type TypedDataDomain,
 } from "ethers";
 import ora from "ora";
-import { getUsdcContract, formatUsdc } from "../utils/usdc.js";
-import { pMap } from "../utils/concurrency.js";
+import { getUsdcContract, formatToken, type TokenInfo } from "../utils/usdc.js";
+import { signTransferAuthorization } from "../utils/eip3009.js";
+import { balanceConcurrency, pMap } from "../utils/concurrency.js";
 import { confirm } from "../utils/prompt.js";
 import * as log from "../utils/logger.js";
 import type { NetworkConfig } from "../config/networks.js";
 
+/**
+ * Send every derived wallet's token and gas balance back to master. Wallets
+ * holding the token but no gas (relay-mode holders) sign an EIP-3009
+ * authorization instead, which master submits — if `authorizationDomain` is
+ * given; otherwise their token balance is left behind.
+ */
 export async function sweepFunds(
   wallets: HDNodeWallet[],
-  masterAddress: string,
+  master: Wallet,
   provider: JsonRpcProvider,
-  network: NetworkConfig
+  network: NetworkConfig,
+  token: TokenInfo,
+  authorizationDomain?: TypedDataDomain
 ): Promise<void> {
+  const masterAddress = master.address;
   const spinner = ora("Checking derived wallet balances...").start();
 
   const usdc = getUsdcContract(network.usdcAddress, provider);
@@ -42,7 +53,7 @@ export async function sweepFunds(
       ]);
       return { index: i, address: w.address, ethBalance, usdcBalance };
     },
-    10
+    balanceConcurrency(network)
   );
 
   const items: SweepItem[] = allBalances.filter(
@@ -62,16 +73,16 @@ export async function sweepFunds(
   const totalUsdc = items.reduce((s, i) => s + i.usdcBalance, 0n);
 
   log.info(`${gasLabel} to recover:  ${formatEther(totalEth)}`);
-  log.info(`USDC to recover: ${formatUsdc(totalUsdc)}`);
+  log.info(`${token.symbol} to recover: ${formatToken(totalUsdc, token)}`);
   console.log();
 
-  const rows: string[][] = [["Wallet", "Address", gasLabel, "USDC"]];
+  const rows: string[][] = [["Wallet", "Address", gasLabel, token.symbol]];
   for (const item of items) {
     rows.push([
       `#${item.index}`,
       item.address,
       formatEther(item.ethBalance),
-      formatUsdc(item.usdcBalance),
+      formatToken(item.usdcBalance, token),
     ]);
   }
   log.table(rows);
@@ -87,8 +98,25 @@ export async function sweepFunds(
 
   // Step 1: Sweep USDC from all wallets
   const usdcSweeps: Promise<void>[] = [];
+  let stranded = 0;
   for (const item of items) {
-    if (item.usdcBalance > 0n) {
+    if (item.usdcBalance > 0n && item.ethBalance === 0n) {
+      if (!authorizationDomain) {
+        stranded++;
+        continue;
+      }
+      // No gas to send with: master relays the wallet's signed authorization.
+      // Master's sends are awaited one by one so ethers assigns its nonces in order.
+      const wallet = new Wallet(wallets[item.index].privateKey, provider);
+      const data = await signTransferAuthorization(
+        wallet,
+        authorizationDomain,
+        masterAddress,
+        item.usdcBalance
+      );
+      const tx = await master.sendTransaction({ to: network.usdcAddress, data });
+      usdcSweeps.push(tx.wait().then(() => {}));
+    } else if (item.usdcBalance > 0n) {
       const wallet = new Wallet(wallets[item.index].privateKey, provider);
       const usdcWithSigner = getUsdcContract(network.usdcAddress, wallet);
       const promise = (usdcWithSigner.transfer as any)(
@@ -102,7 +130,7 @@ export async function sweepFunds(
   }
 
   if (usdcSweeps.length > 0) {
-    sweepSpinner.text = `Sweeping USDC from ${usdcSweeps.length} wallet(s)...`;
+    sweepSpinner.text = `Sweeping ${token.symbol} from ${usdcSweeps.length} wallet(s)...`;
     await Promise.all(usdcSweeps);
   }
 
@@ -158,6 +186,11 @@ export async function sweepFunds(
   }
 
   sweepSpinner.succeed(
-    `Swept ${usdcSweeps.length} USDC + ${ethSweeps.length} ${gasLabel} transfers back to master`
+    `Swept ${usdcSweeps.length} ${token.symbol} + ${ethSweeps.length} ${gasLabel} transfers back to master`
   );
+  if (stranded > 0) {
+    log.warn(
+      `${stranded} wallet(s) hold ${token.symbol} but no ${gasLabel}, and ${token.symbol} doesn't support EIP-3009 — fund them with gas and re-run --cleanup`
+    );
+  }
 }
@@ -1,18 +1,59 @@
+import { closeSync, openSync } from "fs";
 import { Command } from "commander";
 import { config as dotenvConfig } from "dotenv";
-import { Contract, formatEther, JsonRpcProvider, Wallet } from "ethers";
+import {
+  Contract,
+  formatEther,
+  MaxUint256,
+  Wallet,
+  type JsonRpcProvider,
+  type TypedDataDomain,
+} from "ethers";
 import chalk from "chalk";
 import {
   getNetwork,
   getNetworkNames,
   applyOverrides,
 } from "./config/networks.js";
-import { deriveWallets, pairWallets } from "./wallet/derive.js";
+import { deriveWallets, groupWallets } from "./wallet/derive.js";
+import {
+  DEFAULT_GROUP_SIZE,
+  TOPOLOGIES,
+  walletPlan,
+  type Topology,
+} from "./wallet/topology.js";
 import { checkAndFund } from "./wallet/fund.js";
-import { runTest } from "./test/runner.js";
+import { pacedSendShare, runTest, shapedPeakRate } from "./test/runner.js";
+import { findMax, searchMeanRate } from "./test/find-max.js";
+import { DEFAULT_RELAY_GAS_LIMIT } from "./test/relayer.js";
+import { DEFAULT_APPROVE_GAS_LIMIT, DEFAULT_TRANSFER_FROM_GAS_LIMIT } from "./test/tester.js";
+import { mixShare, parseMix, TX_TYPES, type TxMix } from "./test/mix.js";
+import { SUBMIT_MODES, type SubmitMode } from "./test/submit.js";
+import { runBurst } from "./test/burst.js";
+import { createProvider, endpointsOf } from "./test/endpoints.js";
+import { runCoordinator, type CoordinatorOptions } from "./distributed/coordinator.js";
+import { runWorker } from "./distributed/worker.js";
+import { DEFAULT_COORDINATOR_PORT } from "./distributed/protocol.js";
+import { setRawTxBatching } from "./utils/rpc.js";
 import { sweepFunds } from "./cleanup/sweep.js";
 import { seedGas } from "./radius/seed-gas.js";
-import { ERC20_ABI, USDC_CENT, formatUsdc } from "./utils/usdc.js";
+import { compareRuns, printComparison } from "./compare/compare.js";
+import { loadResults } from "./test/results.js";
+import {
+  defaultProfilePeriodMs,
+  loadCurveFile,
+  validateWaypoints,
+  TRAFFIC_PROFILES,
+  type TrafficProfile,
+} from "./test/traffic-curve.js";
+import { ERC20_ABI, formatToken, loadToken } from "./utils/usdc.js";
+import { loadAuthorizationDomain, signTransferAuthorization } from "./utils/eip3009.js";
+import {
+  DEFAULT_AMOUNT,
+  describeAmount,
+  maxAmount,
+  parseAmountSpec,
+} from "./utils/amount.js";
 import * as log from "./utils/logger.js";
 
 dotenvConfig();
@@ -33,29 +74,174 @@ program
   .option("-p, --parallel <count>", "number of parallel testers", "5")
   .option("-d, --duration <seconds>", "test duration in seconds")
   .option("--traffic-shape", "vary load over time using a random traffic curve")
-  .option("--rpc <url>", "override RPC endpoint")
+  .option("--curve-seed <n>", "seed for the random traffic curve, to replay a previous run (implies --traffic-shape)")
+  .option("--curve-file <path>", "load traffic curve waypoints from a JSON/YAML file (implies --traffic-shape)")
+  .option("--traffic-profile <name>", `standard load shape (${TRAFFIC_PROFILES.join(", ")}); implies --traffic-shape`)
+  .option("--profile-baseline <0-1>", "traffic profile: target at the trough / between bursts", "0.2")
+  .option("--profile-amplitude <0-1>", "traffic profile: added on top of the baseline at the peak", "0.7")
+  .option("--profile-period <seconds>", "traffic profile: cycle length (default depends on the profile)")
+  .option("--rate <tx/s>", "open-loop mode: send at a fixed aggregate rate, independent of confirmations (with a traffic curve: the rate at 100%)")
+  .option("--find-max", "capacity search: raise the open-loop rate in steps until throughput stops growing")
+  .option("--start-rate <tx/s>", "find-max: rate of the first step", "1")
+  .option("--step-factor <x>", "find-max: multiply the rate by this each step", "1.5")
+  .option("--step-duration <seconds>", "find-max: length of each step", "30")
+  .option("--max-steps <n>", "find-max: give up after this many steps", "10")
+  .option("--max-p95 <ms>", "find-max: stop once p95 latency exceeds this", "5000")
+  .option("--inflight <n>", "pipelined mode: keep N self-transfers in flight per sender wallet")
+  .option("--burst <n>", "burst mode: pre-sign N self-transfers per wallet, fire them all, then wait for the chain to drain them")
+  .option("--burst-concurrency <n>", "burst mode: raw submissions in flight at once", "64")
+  .option("--topology <name>", `how USDC moves between wallets (${TOPOLOGIES.join(", ")})`, "pair")
+  .option("--relay", "holders sign EIP-3009 transferWithAuthorization and relayer wallets pay the gas")
+  .option("--relayers <n>", "relay mode: number of relayer wallets (default 1)")
+  .option("--group-size <n>", "wallets per tester for ring, fanout and mesh (default: ring 4, fanout 8, mesh 4)")
+  .option("--rpc <url...>", "override RPC endpoint; give several to spread testers across them")
+  .option("--rpc-weights <list>", "with several --rpc: share of testers per endpoint, e.g. 3,1 (default: equal)")
+  .option("--batch-size <n>", "JSON-RPC batching: most calls per batch request (ethers batches up to 100 by default)")
+  .option("--batch-window <ms>", "JSON-RPC batching: how long a call waits for others to join its batch (default 10)")
+  .option("--batch-raw", "JSON-RPC batching: batch raw transaction submissions too (--submit raw|compare, --burst)")
   .option("--usdc-address <addr>", "override USDC contract address")
+  .option("--token <addr>", "transfer this ERC-20 instead of USDC (symbol and decimals are read from the contract)")
+  .option("--amount <spec>", "tokens per transfer: a number, uniform:<min>-<max> or lognormal:<median>,<sigma>", DEFAULT_AMOUNT)
+  .option("--mix <spec>", `weighted transaction types, e.g. transfer:70,approve:10,transferFrom:15,native:5 (${TX_TYPES.join(", ")})`)
+  .option("--submit <mode>", `how testers broadcast (${SUBMIT_MODES.join(", ")}): raw signs locally and skips ethers, compare alternates the two`, "ethers")
   .option("--chain-id <id>", "override chain ID")
   .option("--ws <url>", "WebSocket RPC URL for block subscriptions")
   .option("--cleanup", "sweep funds from derived wallets back to master")
   .option("--skip-funding", "skip the wallet funding step")
+  .option("-o, --output <file>", "write results as JSON to a file")
+  .option("--tx-log <file>", "stream a CSV row per transaction to a file")
+  .option("--window <seconds>", "time series window size (e.g. 1, 10, 60)", "10")
+  .option("--percentiles <list>", "latency percentiles to report, e.g. 50,90,99,99.9")
+  .option("--metrics-port <port>", "serve Prometheus metrics on this port during the test")
+  .option("--dashboard", "show a live full-screen dashboard instead of the spinner")
   .option("--seed-gas <address>", "seed a target address with RUSD (Radius only)")
   .option("--seed-rounds <n>", "number of seed-gas iterations", "10");
 
-program.parse();
+program
+  .command("compare")
+  .description("compare two results files written by --output")
+  .argument("<baseline>", "baseline results JSON")
+  .argument("<candidate>", "candidate results JSON")
+  .option("--max-tps-drop <pct>", "fail if throughput drops by more than this %", "10")
+  .option("--max-p95-increase <pct>", "fail if p95 latency rises by more than this %", "20")
+  .option("--max-p99-increase <pct>", "fail if p99 latency rises by more than this %")
+  .action((baselinePath: string, candidatePath: string, cmdOpts) => {
+    // A NaN threshold never trips, which would let every regression through
+    const threshold = (flag: string, value: string): number => {
+      const pct = Number(value);
+      if (value.trim() === "" || !Number.isFinite(pct) || pct < 0) {
+        log.error(`${flag} must be a non-negative percentage.`);
+        process.exit(1);
+      }
+      return pct;
+    };
+    const maxTpsDropPct = threshold("--max-tps-drop", cmdOpts.maxTpsDrop);
+    const maxP95IncreasePct = threshold("--max-p95-increase", cmdOpts.maxP95Increase);
+    const maxP99IncreasePct = cmdOpts.maxP99Increase != null
+      ? threshold("--max-p99-increase", cmdOpts.maxP99Increase)
+      : undefined;
+    const baseline = loadResults(baselinePath);
+    const candidate = loadResults(candidatePath);
+    const comparison = compareRuns(baseline, candidate, {
+      maxTpsDropPct,
+      maxP95IncreasePct,
+      maxP99IncreasePct,
+    });
+    printComparison(baseline, candidate, comparison);
+    if (comparison.violations.length > 0) {
+      process.exit(1);
+    }
+  });
+
+program
+  .command("coordinate")
+  .description("run the test across worker processes: wallets are funded here, testers run on the workers")
+  .requiredOption("--workers <n>", "number of workers to wait for")
+  .option("--host <address>", "address to listen on for workers", "0.0.0.0")
+  .option("--port <port>", "port the workers connect to", String(DEFAULT_COORDINATOR_PORT))
+  .action((cmdOpts) =>
+    main({ workers: parseInt(cmdOpts.workers), host: cmdOpts.host, port: parseInt(cmdOpts.port) }).catch((err) => {
+      log.error(err.message || String(err));
+      process.exit(1);
+    })
+  );
+
+program
+  .command("worker")
+  .description("run testers for a coordinator (needs the coordinator's PRIVATE_KEY)")
+  .argument("<url>", "coordinator address, e.g. http://10.0.0.5:7545")
+  .action((url: string) => {
+    const privateKey = process.env.PRIVATE_KEY;
+    if (!privateKey) {
+      log.error("PRIVATE_KEY environment variable is required. Set it in .env or your shell.");
+      process.exit(1);
+    }
+    runWorker(url, privateKey).then(
+      () => process.exit(0),
+      (err) => {
+        log.error(err.message || String(err));
+        process.exit(1);
+      }
+    );
+  });
+
+program.action(() =>
+  main().catch((err) => {
+    log.error(err.message || String(err));
+    process.exit(1);
+  })
+);
+
+program.parseAsync().catch((err) => {
+  log.error(err.message || String(err));
+  process.exit(1);
+});
+
+async function main(coordinate?: CoordinatorOptions) {
+  const opts = program.opts();
 
-const opts = program.opts();
+  if (opts.token && opts.usdcAddress) {
+    log.error(`--token and --usdc-address cannot be combined.`);
+    process.exit(1);
+  }
+
+  const batchSize = opts.batchSize != null ? parseInt(opts.batchSize) : undefined;
+  const batchWindow = opts.batchWindow != null ? parseFloat(opts.batchWindow) : 10;
+  if (batchSize == null && (opts.batchRaw || opts.batchWindow != null)) {
+    log.error(`--batch-window and --batch-raw only apply with --batch-size.`);
+    process.exit(1);
+  }
+  if (batchSize != null && (!(batchSize >= 1) || !(batchWindow >= 0))) {
+    log.error(`--batch-size must be a positive integer and --batch-window a non-negative number of milliseconds.`);
+    process.exit(1);
+  }
 
-async function main() {
   // Resolve network config
   let network = getNetwork(opts.network);
   network = applyOverrides(network, {
     rpc: opts.rpc,
     ws: opts.ws,
-    usdcAddress: opts.usdcAddress,
+    usdcAddress: opts.token ?? opts.usdcAddress,
     chainId: opts.chainId ? parseInt(opts.chainId) : undefined,
+    rpcBatch: batchSize != null
+      ? { maxCount: batchSize, stallMs: batchWindow, rawTx: !!opts.batchRaw }
+      : undefined,
   });
 
+  if (opts.rpc && new Set(opts.rpc).size < opts.rpc.length) {
+    log.error(`--rpc lists the same endpoint twice.`);
+    process.exit(1);
+  }
+  if (opts.rpcWeights != null) {
+    const endpoints = network.rpcEndpoints ?? [];
+    const weights = String(opts.rpcWeights).split(",").map((w) => parseFloat(w.trim()));
+    if (endpoints.length < 2 || weights.length !== endpoints.length || weights.some((w) => !(w > 0))) {
+      log.error(`--rpc-weights needs one positive number per endpoint (${endpoints.length} given with --rpc).`);
+      process.exit(1);
+    }
+    network = { ...network, rpcEndpoints: endpoints.map((e, i) => ({ ...e, weight: weights[i] })) };
+  }
+
   // Load private key
   const privateKey = process.env.PRIVATE_KEY;
   if (!privateKey) {
@@ -66,23 +252,30 @@ async function main() {
   }
 
   // Connect
-  const provider = new JsonRpcProvider(network.rpcUrl, network.chainId, {
-    staticNetwork: true,
-  });
+  // Raw submissions have their own batcher; the provider uses ethers' own
+  const { rpcBatch } = network;
+  const provider = createProvider(network);
+  if (rpcBatch?.rawTx) {
+    setRawTxBatching(rpcBatch);
+  }
 
-  // Verify the RPC's chain ID matches our config
-  const rpcChainId = await provider.send("eth_chainId", []).then(
-    (hex: string) => parseInt(hex, 16),
-    () => null
-  );
-  if (rpcChainId != null && rpcChainId !== network.chainId) {
-    log.error(
-      `Chain ID mismatch: network "${opts.network}" is configured for chainId ${network.chainId}, but the RPC returned chainId ${rpcChainId}.`
+  // Verify every RPC's chain ID matches our config
+  for (const { url } of endpointsOf(network)) {
+    const endpointProvider = url === network.rpcUrl ? provider : createProvider(network, url);
+    const rpcChainId = await endpointProvider.send("eth_chainId", []).then(
+      (hex: string) => parseInt(hex, 16),
+      () => null
     );
-    log.error(
-      `Use --chain-id ${rpcChainId} to override, or pick the correct -n network.`
-    );
-    process.exit(1);
+    if (endpointProvider !== provider) endpointProvider.destroy();
+    if (rpcChainId != null && rpcChainId !== network.chainId) {
+      log.error(
+        `Chain ID mismatch: network "${opts.network}" is configured for chainId ${network.chainId}, but ${url} returned chainId ${rpcChainId}.`
+      );
+      log.error(
+        `Use --chain-id ${rpcChainId} to override, or pick the correct -n network.`
+      );
+      process.exit(1);
+    }
   }
 
   const masterWallet = new Wallet(privateKey, provider);
@@ -112,25 +305,306 @@ async function main() {
     process.exit(1);
   }
 
+  // The transferred token: USDC unless --token names another ERC-20
+  const token = await loadToken(network.usdcAddress, provider);
+  const amount = parseAmountSpec(opts.amount, token.decimals);
+  // Relay mode signs against the token's EIP-712 domain; cleanup uses it to
+  // sweep holders that have no gas
+  const authorizationDomain =
+    opts.relay || opts.cleanup
+      ? await loadAuthorizationDomain(network.usdcAddress, provider).catch((err) => {
+          if (opts.relay) throw err;
+          return undefined;
+        })
+      : undefined;
+
   const parallelCount = parseInt(opts.parallel);
-  const trafficShape = !!opts.trafficShape;
-  const durationSec = opts.duration
-    ? parseInt(opts.duration)
-    : trafficShape
-      ? 1800
-      : 60;
-  const walletCount = parallelCount * 2;
+  const curveSources = ["curveSeed", "curveFile", "trafficProfile"].filter((k) => opts[k] != null);
+  if (curveSources.length > 1) {
+    log.error(`${curveSources.map(flagName).join(" and ")} cannot be combined.`);
+    process.exit(1);
+  }
+  const profileName = opts.trafficProfile as TrafficProfile | undefined;
+  if (profileName != null && !TRAFFIC_PROFILES.includes(profileName)) {
+    log.error(`--traffic-profile must be one of: ${TRAFFIC_PROFILES.join(", ")}.`);
+    process.exit(1);
+  }
+  const curveSeed = opts.curveSeed != null ? Number(opts.curveSeed) : undefined;
+  if (curveSeed != null && !(Number.isInteger(curveSeed) && curveSeed >= 0)) {
+    log.error(`--curve-seed must be a non-negative integer.`);
+    process.exit(1);
+  }
+  const curveFile = opts.curveFile
+    ? { path: opts.curveFile as string, waypoints: loadCurveFile(opts.curveFile) }
+    : undefined;
+  const trafficShape =
+    !!opts.trafficShape || curveSeed != null || curveFile != null || profileName != null;
+  const findMaxOptions = opts.findMax
+    ? {
+        startRate: parseFloat(opts.startRate),
+        stepFactor: parseFloat(opts.stepFactor),
+        stepDurationSec: parseInt(opts.stepDuration),
+        maxSteps: parseInt(opts.maxSteps),
+        maxP95Ms: parseFloat(opts.maxP95),
+      }
+    : undefined;
+  // A capacity search runs for at most maxSteps × stepDuration; fund for that
+  const durationSec = findMaxOptions
+    ? findMaxOptions.stepDurationSec * findMaxOptions.maxSteps
+    : opts.duration
+      ? parseInt(opts.duration)
+      : curveFile
+        ? Math.ceil(curveFile.waypoints[curveFile.waypoints.length - 1].timeMs / 1000)
+        : trafficShape
+          ? 1800
+          : 60;
+  if (curveFile) {
+    validateWaypoints(curveFile.waypoints, durationSec * 1000);
+  }
+  const windowSec = parseInt(opts.window);
+  if (!(windowSec >= 1)) {
+    log.error(`--window must be a positive integer number of seconds.`);
+    process.exit(1);
+  }
+  const trafficProfile = profileName && {
+    name: profileName,
+    baseline: parseFloat(opts.profileBaseline),
+    amplitude: parseFloat(opts.profileAmplitude),
+    periodMs: opts.profilePeriod
+      ? parseFloat(opts.profilePeriod) * 1000
+      : defaultProfilePeriodMs(profileName, durationSec * 1000),
+  };
+  if (trafficProfile) {
+    const { baseline, amplitude, periodMs } = trafficProfile;
+    if (!(baseline >= 0 && baseline <= 1) || !(amplitude >= 0 && amplitude <= 1)) {
+      log.error(`--profile-baseline and --profile-amplitude must be between 0 and 1.`);
+      process.exit(1);
+    }
+    if (!(periodMs >= 10_000)) {
+      log.error(`--profile-period must be at least 10 seconds.`);
+      process.exit(1);
+    }
+  }
+
+  const topology = opts.topology as Topology;
+  if (!TOPOLOGIES.includes(topology)) {
+    log.error(`--topology must be one of: ${TOPOLOGIES.join(", ")}.`);
+    process.exit(1);
+  }
+  const groupSize = opts.groupSize != null ? parseInt(opts.groupSize) : DEFAULT_GROUP_SIZE[topology];
+  if (topology === "pair" && groupSize !== 2) {
+    log.error(`--group-size only applies to ring, fanout and mesh topologies.`);
+    process.exit(1);
+  }
+  if (!(groupSize >= 2)) {
+    log.error(`--group-size must be at least 2.`);
+    process.exit(1);
+  }
+  const walletCount = parallelCount * groupSize;
+
+  if (opts.relayers != null && !opts.relay) {
+    log.error(`--relayers only applies with --relay.`);
+    process.exit(1);
+  }
+  const relayerCount = opts.relay ? parseInt(opts.relayers ?? "1") : 0;
+  if (opts.relay && !(relayerCount >= 1)) {
+    log.error(`--relayers must be a positive integer.`);
+    process.exit(1);
+  }
+
+  const rate = opts.rate != null ? parseFloat(opts.rate) : undefined;
+  if (rate != null && !(rate > 0)) {
+    log.error(`--rate must be a positive number of transactions per second.`);
+    process.exit(1);
+  }
+
+  if (findMaxOptions) {
+    const conflicts = ["rate", "trafficShape", "curveSeed", "curveFile", "trafficProfile", "duration", "txLog", "dashboard", "metricsPort"]
+      .filter((k) => opts[k] != null && opts[k] !== false);
+    if (conflicts.length > 0) {
+      log.error(`--find-max sets its own load and duration; drop ${conflicts.map(flagName).join(", ")}.`);
+      process.exit(1);
+    }
+    const f = findMaxOptions;
+    if (!(f.startRate > 0) || !(f.stepFactor > 1) || !(f.stepDurationSec > 0) || !(f.maxSteps >= 1) || !(f.maxP95Ms > 0)) {
+      log.error(`--find-max needs --start-rate > 0, --step-factor > 1, and positive --step-duration, --max-steps and --max-p95.`);
+      process.exit(1);
+    }
+  }
+
+  // Open the tx log now: a bad path should fail before wallets are funded
+  if (opts.txLog) {
+    try {
+      closeSync(openSync(opts.txLog, "w"));
+    } catch (err: any) {
+      log.error(`Cannot write --tx-log ${opts.txLog}: ${err.message}`);
+      process.exit(1);
+    }
+  }
+
+  const inflight = opts.inflight != null ? parseInt(opts.inflight) : undefined;
+  if (inflight != null && !(inflight >= 1)) {
+    log.error(`--inflight must be a positive integer.`);
+    process.exit(1);
+  }
+  // Paced runs are open-loop: each slot goes out with the next nonce of the
+  // tester's first wallet, without waiting for earlier receipts, so they
+  // pipeline just like --inflight
+  const pipelinedBy =
+    inflight != null ? "--inflight"
+    : findMaxOptions ? "--find-max"
+    : rate != null ? "--rate"
+    : trafficShape ? "traffic shaping"
+    : null;
+  // Ring and mesh senders change with every hop, so there is no single
+  // wallet to pipeline from
+  if (pipelinedBy && (topology === "ring" || topology === "mesh")) {
+    log.error(`${pipelinedBy} works with the pair and fanout topologies only.`);
+    process.exit(1);
+  }
+  // Relayers order their own nonces; pipelining holders' nonces doesn't apply
+  if (pipelinedBy && opts.relay) {
+    log.error(`${pipelinedBy} and --relay cannot be combined.`);
+    process.exit(1);
+  }
+
+  const mix = opts.mix != null ? parseMix(opts.mix) : undefined;
+  if (mix && (pipelinedBy || opts.relay)) {
+    log.error(`--mix works with closed-loop testers only; drop ${pipelinedBy ?? "--relay"}.`);
+    process.exit(1);
+  }
+  // Native coin transfers fail on gas-token chains (see fund.ts)
+  if (mix?.some((m) => m.type === "native") && network.gasTokenAddress) {
+    log.error(`--mix native is not available on ${network.name}: it pays gas in an ERC-20 token.`);
+    process.exit(1);
+  }
+
+  const submit = opts.submit as SubmitMode;
+  if (!SUBMIT_MODES.includes(submit)) {
+    log.error(`--submit must be one of: ${SUBMIT_MODES.join(", ")}.`);
+    process.exit(1);
+  }
+  // Relayers broadcast through ethers; the holders send nothing themselves
+  if (submit !== "ethers" && opts.relay) {
+    log.error(`--submit ${submit} and --relay cannot be combined.`);
+    process.exit(1);
+  }
+  // The relayer pool broadcasts through a single provider
+  if (network.rpcEndpoints && opts.relay) {
+    log.error(`--relay sends every transfer through one endpoint; give a single --rpc.`);
+    process.exit(1);
+  }
+
+  const burst = opts.burst != null
+    ? { txsPerWallet: parseInt(opts.burst), concurrency: parseInt(opts.burstConcurrency) }
+    : undefined;
+  if (burst) {
+    // A burst is a fixed batch of self-transfers: no pacing, duration or topology
+    const conflicts = ["findMax", "rate", "trafficShape", "curveSeed", "curveFile", "trafficProfile", "duration", "inflight", "relay", "mix", "dashboard", "metricsPort"]
+      .filter((k) => opts[k] != null && opts[k] !== false);
+    if (topology !== "pair") conflicts.push("topology");
+    if (submit !== "ethers") conflicts.push("submit");
+    if (conflicts.length > 0) {
+      log.error(`--burst sends pre-signed self-transfers as fast as it can; drop ${conflicts.map(flagName).join(", ")}.`);
+      process.exit(1);
+    }
+    if (!(burst.txsPerWallet >= 1) || !(burst.concurrency >= 1)) {
+      log.error(`--burst and --burst-concurrency must be positive integers.`);
+      process.exit(1);
+    }
+  }
+
+  if (coordinate) {
+    // Workers share nothing but the chain: no mesh registry or relayer pool
+    // across them, and the live views stay single-process
+    const conflicts = ["findMax", "burst", "relay", "dashboard", "metricsPort"]
+      .filter((k) => opts[k] != null && opts[k] !== false);
+    if (topology === "mesh") conflicts.push("topology");
+    if (conflicts.length > 0) {
+      log.error(`coordinate splits testers between processes; drop ${conflicts.map(flagName).join(", ")}.`);
+      process.exit(1);
+    }
+    if (!(coordinate.workers >= 1) || !(coordinate.port > 0)) {
+      log.error(`--workers and --port must be positive integers.`);
+      process.exit(1);
+    }
+    if (parallelCount < coordinate.workers) {
+      log.error(`-p must be at least --workers, so every worker has a tester.`);
+      process.exit(1);
+    }
+  }
+
+  let percentiles: number[] | undefined;
+  if (opts.percentiles) {
+    percentiles = String(opts.percentiles)
+      .split(",")
+      .map((p) => parseFloat(p.trim()));
+    if (percentiles.some((p) => !(p > 0 && p <= 100))) {
+      log.error(`--percentiles must be a comma-separated list of numbers in (0, 100].`);
+      process.exit(1);
+    }
+  }
 
   log.header("USDC Speedtest");
   log.info(`Network:    ${network.name} (chainId: ${network.chainId})`);
-  log.info(`RPC:        ${network.rpcUrl}`);
+  if (network.rpcEndpoints) {
+    const { rpcEndpoints } = network;
+    const evenly = rpcEndpoints.every((e) => e.weight === rpcEndpoints[0].weight);
+    log.info(`RPC:        ${rpcEndpoints.length} endpoints, testers spread ${evenly ? "round-robin" : "by weight"}`);
+    for (const { url, weight } of rpcEndpoints) {
+      log.info(`            ${url}${evenly ? "" : ` (weight ${weight})`}`);
+    }
+  } else {
+    log.info(`RPC:        ${network.rpcUrl}`);
+  }
+  if (rpcBatch) {
+    log.info(`Batching:   up to ${rpcBatch.maxCount} calls per request, ${rpcBatch.stallMs} ms window${rpcBatch.rawTx ? ", raw submissions included" : ""}`);
+  }
   if (network.wsUrl) {
     log.info(`WebSocket:  ${network.wsUrl}`);
   }
+  log.info(`Token:      ${token.symbol} (${token.address}, ${token.decimals} decimals)`);
+  log.info(`Amount:     ${describeAmount(amount, token)} per transfer`);
   log.info(`Parallel:   ${parallelCount} testers (${walletCount} wallets)`);
-  log.info(`Duration:   ${durationSec}s`);
-  if (trafficShape) {
+  if (coordinate) {
+    log.info(`Workers:    ${coordinate.workers}, joining on ${coordinate.host}:${coordinate.port}`);
+  }
+  if (opts.relay) {
+    log.info(`Relay:      ${relayerCount} relayer(s) submit EIP-3009 authorizations (${authorizationDomain!.name} v${authorizationDomain!.version})`);
+  }
+  if (burst) {
+    log.info(`Mode:       burst of ${burst.txsPerWallet} pre-signed transfers per wallet, ${burst.concurrency} in flight`);
+  } else if (findMaxOptions) {
+    log.info(`Duration:   up to ${durationSec}s (${findMaxOptions.maxSteps} steps × ${findMaxOptions.stepDurationSec}s)`);
+    log.info(`Mode:       capacity search from ${findMaxOptions.startRate} tx/s, ×${findMaxOptions.stepFactor} per step`);
+  } else {
+    log.info(`Duration:   ${durationSec}s`);
+  }
+  if (curveFile) {
+    log.info(`Mode:       traffic shaping (curve from ${curveFile.path})`);
+  } else if (curveSeed != null) {
+    log.info(`Mode:       traffic shaping (seed ${curveSeed})`);
+  } else if (trafficProfile) {
+    log.info(`Mode:       traffic shaping (${trafficProfile.name} profile)`);
+  } else if (trafficShape) {
     log.info(`Mode:       traffic shaping`);
+  } else if (rate != null) {
+    log.info(`Mode:       open loop at ${rate} tx/s`);
+  }
+  if (trafficShape && rate != null) {
+    log.info(`Peak rate:  ${rate} tx/s at 100% target`);
+  }
+  if (topology !== "pair") {
+    log.info(`Topology:   ${topology}, ${groupSize} wallets per tester`);
+  }
+  if (inflight != null) {
+    log.info(`Pipeline:   ${inflight} in flight per sender`);
+  }
+  if (submit !== "ethers") {
+    log.info(`Submit:     ${submit === "raw" ? "signed locally, raw broadcast" : "alternating ethers and raw broadcast"}`);
+  }
+  if (mix) {
+    log.info(`Mix:        ${mix.map((m) => `${m.type} ${Math.round(mixShare(mix, m.type) * 100)}%`).join(", ")}`);
   }
   console.log();
 
@@ -142,20 +616,48 @@ async function main() {
   ]);
   log.info(`Master wallet: ${masterWallet.address}`);
   log.info(`  ${gasLabel} balance: ${formatEther(masterEth)}`);
-  log.info(`  USDC balance: ${formatUsdc(masterUsdc)}`);
+  log.info(`  ${token.symbol} balance: ${formatToken(masterUsdc, token)}`);
   console.log();
 
   // Derive wallets
-  const wallets = deriveWallets(privateKey, walletCount);
+  // Relayers, if any, come after the testers' wallets
+  const wallets = deriveWallets(privateKey, walletCount + relayerCount);
   log.info("Derived wallets:");
+  // Paced runs: fund each first wallet for its share of the peak rate (or,
+  // for a capacity search, the mean rate over every step)
+  const pacedRate = findMaxOptions
+    ? searchMeanRate(findMaxOptions)
+    : trafficShape
+      ? shapedPeakRate(parallelCount, network, { rate, inflight })
+      : rate;
+  const paced = pacedRate != null
+    ? { sendShare: pacedSendShare(parallelCount, network, pacedRate) }
+    : undefined;
+  const topologyOptions = {
+    topology,
+    groupSize,
+    inflight,
+    paced,
+    relay: opts.relay ? { testers: parallelCount, relayers: relayerCount } : undefined,
+    pullShare: mix ? mixShare(mix, "transferFrom") : undefined,
+    burst: burst?.txsPerWallet,
+  };
+  const plans = wallets.map((_, i) => walletPlan(topologyOptions, i));
+  const roleWidth = Math.max(...plans.map((p) => p.role.length));
   for (let i = 0; i < wallets.length; i++) {
-    const role = i % 2 === 0 ? chalk.cyan("sender  ") : chalk.magenta("receiver");
+    const plan = plans[i];
+    const label = plan.role.padEnd(roleWidth);
+    const role = plan.holdsUsdc
+      ? chalk.cyan(label)
+      : plan.sendShare === 0 && !plan.receivesUsdc
+        ? chalk.gray(label)
+        : chalk.magenta(label);
     log.info(`  #${i} ${role} ${wallets[i].address}`);
   }
   console.log();
 
   if (opts.cleanup) {
-    await sweepFunds(wallets, masterWallet.address, provider, network);
+    await sweepFunds(wallets, masterWallet, provider, network, token, authorizationDomain);
     return;
   }
 
@@ -165,44 +667,145 @@ async function main() {
     masterWallet.address,
     wallets[0].address,
     network.usdcAddress,
-    !!network.gasTokenAddress
+    maxAmount(amount),
+    !!network.gasTokenAddress,
+    opts.relay ? { signer: masterWallet, domain: authorizationDomain! } : undefined,
+    mix
   );
   log.info(
-    `Gas limits: ETH transfer = ${gasLimits.ethTransfer}, ERC-20 transfer = ${gasLimits.erc20Transfer}`
+    `Gas limits: ETH transfer = ${gasLimits.ethTransfer}, ERC-20 transfer = ${gasLimits.erc20Transfer}` +
+      (gasLimits.authorizedTransfer != null
+        ? `, transferWithAuthorization = ${gasLimits.authorizedTransfer}`
+        : "") +
+      (gasLimits.approve != null ? `, approve = ${gasLimits.approve}` : "") +
+      (gasLimits.transferFrom != null ? `, transferFrom = ${gasLimits.transferFrom}` : "")
   );
   console.log();
 
   // Check and fund wallets
   if (!opts.skipFunding) {
-    await checkAndFund(wallets, masterWallet, provider, network, durationSec, gasLimits);
+    await checkAndFund(wallets, masterWallet, provider, network, durationSec, gasLimits, topologyOptions, token, amount, mix);
   }
 
-  // Pair wallets and run test
-  const pairs = pairWallets(wallets);
-  await runTest(pairs, provider, network, durationSec, trafficShape, gasLimits);
+  // Group wallets by tester and run test
+  const groups = groupWallets(wallets.slice(0, walletCount), topology, groupSize);
+  const relay = opts.relay
+    ? { wallets: wallets.slice(walletCount), domain: authorizationDomain! }
+    : undefined;
+  if (burst) {
+    await runBurst(groups, provider, network, burst, {
+      token,
+      amount,
+      gasLimits,
+      outputPath: opts.output,
+      txLogPath: opts.txLog,
+      windowSec,
+      percentiles,
+    });
+    return;
+  }
+  if (findMaxOptions) {
+    await findMax(groups, provider, network, findMaxOptions, {
+      token,
+      amount,
+      gasLimits,
+      outputPath: opts.output,
+      windowSec,
+      percentiles,
+      inflight,
+      paced,
+      relay,
+      mix,
+      submit,
+    });
+    return;
+  }
+  if (coordinate) {
+    await runCoordinator(groups, provider, network, durationSec, {
+      token,
+      amount,
+      trafficShape,
+      curveSeed,
+      curveFile,
+      trafficProfile,
+      gasLimits,
+      outputPath: opts.output,
+      txLogPath: opts.txLog,
+      windowSec,
+      percentiles,
+      rate,
+      inflight,
+      paced,
+      mix,
+      submit,
+    }, coordinate, privateKey);
+    return;
+  }
+  await runTest(groups, provider, network, durationSec, {
+    token,
+    amount,
+    trafficShape,
+    curveSeed,
+    curveFile,
+    trafficProfile,
+    gasLimits,
+    outputPath: opts.output,
+    txLogPath: opts.txLog,
+    windowSec,
+    percentiles,
+    metricsPort: opts.metricsPort ? parseInt(opts.metricsPort) : undefined,
+    dashboard: !!opts.dashboard,
+    rate,
+    inflight,
+    paced,
+    relay,
+    mix,
+    submit,
+  });
 }
 
-main().catch((err) => {
-  log.error(err.message || String(err));
-  process.exit(1);
-});
+/** "txLog" → "--tx-log" */
+function flagName(key: string): string {
+  return "--" + key.replace(/[A-Z]/g, (c) => "-" + c.toLowerCase());
+}
 
-export type GasLimits = { ethTransfer: bigint; erc20Transfer: bigint };
+export type GasLimits = {
+  ethTransfer: bigint;
+  erc20Transfer: bigint;
+  /** Relay mode: transferWithAuthorization, as sent by a relayer. */
+  authorizedTransfer?: bigint;
+  /** Mixed workloads (--mix) with these transaction types. */
+  approve?: bigint;
+  transferFrom?: bigint;
+};
 
 async function estimateGasLimits(
   provider: JsonRpcProvider,
   fromAddress: string,
   toAddress: string,
   usdcAddress: string,
-  isGasTokenChain: boolean
+  amount: bigint,
+  isGasTokenChain: boolean,
+  authorization?: { signer: Wallet; domain: TypedDataDomain },
+  mix?: TxMix
 ): Promise<GasLimits> {
   const BUFFER_NUM = 120n; // 20% safety margin
   const BUFFER_DEN = 100n;
   const DEFAULT_ETH = 21_000n;
   const DEFAULT_ERC20 = 100_000n;
 
+  // Relay mode: estimate an authorization signed by the master (it holds the
+  // token); it is never submitted, so its nonce stays unused
+  let authorizedTransfer: bigint | undefined;
+  if (authorization) {
+    const raw = await signTransferAuthorization(authorization.signer, authorization.domain, toAddress, amount)
+      .then((data) => provider.estimateGas({ from: fromAddress, to: usdcAddress, data }))
+      .catch(() => DEFAULT_RELAY_GAS_LIMIT);
+    authorizedTransfer = (raw * BUFFER_NUM) / BUFFER_DEN;
+  }
+
   const iface = new Contract(usdcAddress, ERC20_ABI).interface;
-  const data = iface.encodeFunctionData("transfer", [toAddress, USDC_CENT]);
+  const data = iface.encodeFunctionData("transfer", [toAddress, amount]);
 
   const erc20Raw = await provider
     .estimateGas({ from: fromAddress, to: usdcAddress, data })
@@ -210,10 +813,35 @@ async function estimateGasLimits(
 
   const erc20Transfer = (erc20Raw * BUFFER_NUM) / BUFFER_DEN;
 
+  // Mixed workloads: the master approves the first wallet, which then pulls
+  // from it. The master hasn't granted that allowance, so the transferFrom
+  // estimate usually reverts and falls back to the default.
+  const inMix = (type: string) => mix?.some((m) => m.type === type);
+  const estimateCall = (from: string, data: string, fallback: bigint) =>
+    provider
+      .estimateGas({ from, to: usdcAddress, data })
+      .catch(() => fallback)
+      .then((raw) => (raw * BUFFER_NUM) / BUFFER_DEN);
+  const approve =
+    inMix("approve") || inMix("transferFrom")
+      ? await estimateCall(
+          fromAddress,
+          iface.encodeFunctionData("approve", [toAddress, MaxUint256]),
+          DEFAULT_APPROVE_GAS_LIMIT
+        )
+      : undefined;
+  const transferFrom = inMix("transferFrom")
+    ? await estimateCall(
+        toAddress,
+        iface.encodeFunctionData("transferFrom", [fromAddress, toAddress, amount]),
+        DEFAULT_TRANSFER_FROM_GAS_LIMIT
+      )
+    : undefined;
+
   if (isGasTokenChain) {
     // On gas-token chains, native ETH transfers are unused — gas token funding
     // is also ERC-20, so ethTransfer = erc20Transfer.
-    return { ethTransfer: erc20Transfer, erc20Transfer };
+    return { ethTransfer: erc20Transfer, erc20Transfer, authorizedTransfer, approve, transferFrom };
   }
 
   const ethRaw = await provider
@@ -223,5 +851,8 @@ async function estimateGasLimits(
   return {
     ethTransfer: (ethRaw * BUFFER_NUM) / BUFFER_DEN,
     erc20Transfer,
+    authorizedTransfer,
+    approve,
+    transferFrom,
   };
 }
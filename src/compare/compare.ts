@@ -0,0 +1,160 @@
+import chalk from "chalk";
+import type { ResultsDocument } from "../test/results.js";
+import type { TestSummary } from "../test/stats.js";
+import * as log from "../utils/logger.js";
+
+export type CompareThresholds = {
+  /** Fail if throughput drops by more than this percentage. */
+  maxTpsDropPct?: number;
+  /** Fail if p95 latency rises by more than this percentage. */
+  maxP95IncreasePct?: number;
+  /** Fail if p99 latency rises by more than this percentage. */
+  maxP99IncreasePct?: number;
+};
+
+type MetricKey = {
+  [K in keyof TestSummary]-?: TestSummary[K] extends number | bigint ? K : never;
+}[keyof TestSummary];
+
+type Metric = {
+  key: MetricKey;
+  label: string;
+  unit: string;
+  /** Whether a higher value is an improvement (used only for coloring). */
+  higherIsBetter?: boolean;
+};
+
+const METRICS: Metric[] = [
+  { key: "totalTransactions", label: "Total transactions", unit: "", higherIsBetter: true },
+  { key: "totalDurationMs", label: "Duration", unit: "ms" },
+  { key: "transactionsPerSecond", label: "Throughput", unit: "tx/s", higherIsBetter: true },
+  { key: "successRate", label: "Success rate", unit: "", higherIsBetter: true },
+  { key: "failedTransactions", label: "Failed transactions", unit: "", higherIsBetter: false },
+  { key: "avgLatencyMs", label: "Latency avg", unit: "ms", higherIsBetter: false },
+  { key: "p50LatencyMs", label: "Latency p50", unit: "ms", higherIsBetter: false },
+  { key: "p95LatencyMs", label: "Latency p95", unit: "ms", higherIsBetter: false },
+  { key: "p99LatencyMs", label: "Latency p99", unit: "ms", higherIsBetter: false },
+  { key: "minLatencyMs", label: "Latency min", unit: "ms", higherIsBetter: false },
+  { key: "maxLatencyMs", label: "Latency max", unit: "ms", higherIsBetter: false },
+  { key: "totalGasUsed", label: "Gas total", unit: "", higherIsBetter: false },
+  { key: "avgGasPerTx", label: "Gas per tx", unit: "", higherIsBetter: false },
+];
+
+export type MetricDelta = {
+  label: string;
+  unit: string;
+  baseline: number;
+  candidate: number;
+  delta: number;
+  /** Percent change relative to baseline; null when the baseline is zero. */
+  deltaPct: number | null;
+  higherIsBetter?: boolean;
+};
+
+export type Comparison = {
+  deltas: MetricDelta[];
+  violations: string[];
+};
+
+export function compareRuns(
+  baseline: ResultsDocument,
+  candidate: ResultsDocument,
+  thresholds: CompareThresholds
+): Comparison {
+  // Skip metrics missing from either file (written by an older version)
+  const shared = METRICS.filter(
+    (m) => baseline.summary[m.key] != null && candidate.summary[m.key] != null
+  );
+  const deltas: MetricDelta[] = shared.map((m) => {
+    const b = Number(baseline.summary[m.key]);
+    const c = Number(candidate.summary[m.key]);
+    return {
+      label: m.label,
+      unit: m.unit,
+      baseline: b,
+      candidate: c,
+      delta: c - b,
+      deltaPct: b !== 0 ? ((c - b) / b) * 100 : null,
+      higherIsBetter: m.higherIsBetter,
+    };
+  });
+
+  const byLabel = (label: string) => deltas.find((d) => d.label === label);
+  const violations: string[] = [];
+
+  const check = (label: string, limitPct: number | undefined, direction: 1 | -1) => {
+    if (limitPct == null) return;
+    const d = byLabel(label);
+    if (!d || d.deltaPct == null) return;
+    // direction -1: a drop is a regression; +1: an increase is a regression
+    const change = d.deltaPct * direction;
+    if (change > limitPct) {
+      const verb = direction < 0 ? "dropped" : "increased";
+      violations.push(
+        `${label} ${verb} ${change.toFixed(1)}% (limit ${limitPct}%)`
+      );
+    }
+  };
+
+  check("Throughput", thresholds.maxTpsDropPct, -1);
+  check("Latency p95", thresholds.maxP95IncreasePct, 1);
+  check("Latency p99", thresholds.maxP99IncreasePct, 1);
+
+  return { deltas, violations };
+}
+
+export function printComparison(
+  baseline: ResultsDocument,
+  candidate: ResultsDocument,
+  comparison: Comparison
+): void {
+  const fmt = (n: number) => n.toLocaleString("en-US", { maximumFractionDigits: 2 });
+  const withUnit = (n: number, unit: string) => (unit ? `${fmt(n)} ${unit}` : fmt(n));
+
+  log.header("USDC Speedtest Comparison");
+  log.info(`Baseline:  ${baseline.config.network.name}, ${baseline.config.parallel} testers, ${baseline.generatedAt}`);
+  log.info(`Candidate: ${candidate.config.network.name}, ${candidate.config.parallel} testers, ${candidate.generatedAt}`);
+  console.log();
+
+  const rows: string[][] = [["Metric", "Baseline", "Candidate", "Delta", "Delta %"]];
+  for (const d of comparison.deltas) {
+    const sign = d.delta > 0 ? "+" : "";
+    rows.push([
+      d.label,
+      withUnit(d.baseline, d.unit),
+      withUnit(d.candidate, d.unit),
+      `${sign}${withUnit(d.delta, d.unit)}`,
+      d.deltaPct == null ? "—" : `${sign}${d.deltaPct.toFixed(1)}%`,
+    ]);
+  }
+
+  // log.table has no per-cell colors, so pad manually and color whole lines
+  const colWidths = rows[0].map((_, i) => Math.max(...rows.map((r) => r[i].length)));
+  rows.forEach((row, idx) => {
+    const line = "  " + row.map((cell, i) => cell.padEnd(colWidths[i])).join("  ");
+    if (idx === 0) {
+      console.log(chalk.white.bold(line));
+      return;
+    }
+    const d = comparison.deltas[idx - 1];
+    const improved = d.higherIsBetter ? d.delta > 0 : d.delta < 0;
+    const color =
+      d.delta === 0 || d.higherIsBetter == null
+        ? chalk.white
+        : improved
+          ? chalk.green
+          : chalk.red;
+    console.log(color(line));
+  });
+
+  console.log();
+  if (comparison.violations.length === 0) {
+    log.success("No regression thresholds crossed.");
+  } else {
+    log.error("Regression thresholds crossed:");
+    for (const v of comparison.violations) {
+      log.error(`  ${v}`);
+    }
+  }
+  console.log();
+}
@@ -2,6 +2,12 @@ export type NetworkConfig = {
   name: string;
   chainId: number;
   rpcUrl: string;
+  /**
+   * Several endpoints to spread testers over, by weight (repeated --rpc, or
+   * listed here); rpcUrl is the first. Funding, block fetches and cleanup
+   * only use rpcUrl.
+   */
+  rpcEndpoints?: RpcEndpoint[];
   wsUrl?: string;
   usdcAddress: string;
   estimatedBlockTimeMs: number;
@@ -9,8 +15,18 @@ export type NetworkConfig = {
   immediateReceipt?: boolean;
   supported: boolean;
   gasTokenAddress?: string;
+  /**
+   * JSON-RPC batching (--batch-size): calls made within stallMs of each other
+   * go out as one batch request of at most maxCount. rawTx extends it to raw
+   * transaction submission (--batch-raw).
+   */
+  rpcBatch?: RpcBatchConfig;
 };
 
+export type RpcEndpoint = { url: string; weight: number };
+
+export type RpcBatchConfig = { maxCount: number; stallMs: number; rawTx: boolean };
+
 const networks: Record<string, NetworkConfig> = {
   mainnet: {
     name: "Ethereum Mainnet",
@@ -87,13 +103,18 @@ export function getNetworkNames(): string[] {
 
 export function applyOverrides(
   config: NetworkConfig,
-  overrides: { rpc?: string; ws?: string; usdcAddress?: string; chainId?: number }
+  overrides: { rpc?: string[]; ws?: string; usdcAddress?: string; chainId?: number; rpcBatch?: RpcBatchConfig }
 ): NetworkConfig {
   const result = { ...config };
-  if (overrides.rpc) result.rpcUrl = overrides.rpc;
+  if (overrides.rpc?.length) {
+    result.rpcUrl = overrides.rpc[0];
+    result.rpcEndpoints =
+      overrides.rpc.length > 1 ? overrides.rpc.map((url) => ({ url, weight: 1 })) : undefined;
+  }
   if (overrides.ws) result.wsUrl = overrides.ws;
   if (overrides.usdcAddress) result.usdcAddress = overrides.usdcAddress;
   if (overrides.chainId) result.chainId = overrides.chainId;
+  if (overrides.rpcBatch) result.rpcBatch = overrides.rpcBatch;
 
   if (result.rpcUrl && result.usdcAddress && result.chainId) {
     result.supported = true;
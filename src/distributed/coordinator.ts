@@ -0,0 +1,447 @@
+import { randomBytes } from "crypto";
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import chalk from "chalk";
+import ora from "ora";
+import type { JsonRpcProvider } from "ethers";
+import {
+  decode,
+  encode,
+  HEARTBEAT_MS,
+  runToken,
+  secretMatches,
+  type Assignment,
+  type Control,
+  type Heartbeat,
+  type JoinRequest,
+  type WorkerPhase,
+  type WorkerReport,
+} from "./protocol.js";
+import { createTrafficCurve, prepareTest, shapedPeakRate, type RunOptions } from "../test/runner.js";
+import { computeStats, printSummary } from "../test/stats.js";
+import { analyzeBlocks, annotatePhases, collectBlockNumbers, fetchBlocks } from "../test/blocks.js";
+import { buildResultsDocument, writeResults, type RunConfig } from "../test/results.js";
+import { TxLogWriter } from "../test/tx-log.js";
+import { formatMix } from "../test/mix.js";
+import type { TesterResult } from "../test/tester.js";
+import type { TrafficCurve } from "../test/traffic-curve.js";
+import { formatAmountSpec } from "../utils/amount.js";
+import * as log from "../utils/logger.js";
+import type { WalletGroup } from "../wallet/derive.js";
+import type { NetworkConfig } from "../config/networks.js";
+
+// Lead time between the last worker getting ready and the start, so every
+// worker hears the start time a few heartbeats before it comes
+const START_DELAY_MS = 2_000;
+// A worker that has not checked in for this long is given up on
+const WORKER_TIMEOUT_MS = 30_000;
+// Worker host names are shown in the spinner and warnings; longer ones are cut
+const MAX_HOST_LENGTH = 64;
+
+export type CoordinatorOptions = {
+  /** Workers to wait for before starting. */
+  workers: number;
+  /** Address and port the workers connect to. */
+  host: string;
+  port: number;
+};
+
+type WorkerState = {
+  id: number;
+  host: string;
+  /** Bearer secret handed out at join; the worker's later requests need it. */
+  secret: string;
+  firstTester: number;
+  testerCount: number;
+  phase: WorkerPhase;
+  confirmed: number;
+  failed: number;
+  lastSeenMs: number;
+  report?: WorkerReport;
+  lost?: boolean;
+};
+
+/**
+ * Coordinator (`usdc-speedtest coordinate`): the wallets are derived and
+ * funded here as for a single-process run, then each worker that joins gets
+ * a contiguous range of testers. Once every worker is ready the coordinator
+ * sets a start time, drives the traffic curve and calls the stop; workers
+ * pick these up from their heartbeats. Their results are merged into one
+ * summary, with block analysis done here.
+ */
+export async function runCoordinator(
+  groups: WalletGroup[],
+  provider: JsonRpcProvider,
+  network: NetworkConfig,
+  durationSec: number,
+  options: RunOptions,
+  coordinator: CoordinatorOptions,
+  masterPrivateKey: string
+): Promise<void> {
+  const {
+    token,
+    amount,
+    trafficShape,
+    gasLimits,
+    outputPath,
+    txLogPath,
+    windowSec = 10,
+    percentiles,
+    rate,
+    inflight,
+    mix,
+    submit = "ethers",
+  } = options;
+
+  if (!(await prepareTest(groups, provider, network, durationSec, options))) return;
+
+  let curve: TrafficCurve | undefined;
+  if (trafficShape) {
+    curve = createTrafficCurve(options, durationSec);
+    log.info(curve.describe());
+    console.log();
+  }
+  // Paced runs: the aggregate rate (at a 100% target when shaped), split
+  // between workers by tester count
+  const peakRate = curve ? shapedPeakRate(groups.length, network, options) : rate;
+
+  // Indexed by worker id; a slot lost before the start is refilled in place
+  const workers: WorkerState[] = [];
+  const joined = () => workers.filter((w) => !w.lost).length;
+  let state: Control["state"] = "waiting";
+  let startAt = 0;
+
+  const assignmentFor = (w: WorkerState): Assignment => ({
+    workerId: w.id,
+    network,
+    firstTester: w.firstTester,
+    testerCount: w.testerCount,
+    topology: groups[0].topology,
+    groupSize: groups[0].wallets.length,
+    token,
+    amountSpec: formatAmountSpec(amount, token.decimals),
+    gasLimits: gasLimits ?? null,
+    inflight: inflight ?? null,
+    mix: mix ? formatMix(mix) : null,
+    submit,
+    rate: peakRate != null ? (peakRate * w.testerCount) / groups.length : null,
+    shaped: !!curve,
+  });
+
+  // Who is asking: /join needs the run token, every other route the secret
+  // of a joined worker. Checked before the body is read.
+  const joinToken = runToken(masterPrivateKey);
+  const caller = (path: string, bearer: string): WorkerState | "joining" | null => {
+    if (path === "/join") return secretMatches(bearer, joinToken) ? "joining" : null;
+    return workers.find((w) => secretMatches(bearer, w.secret)) ?? null;
+  };
+
+  const handle = (
+    method: string,
+    path: string,
+    query: URLSearchParams,
+    body: any,
+    from: WorkerState | "joining"
+  ): [number, unknown] => {
+    if (method === "POST" && path === "/join") {
+      const join = body as JoinRequest;
+      if (typeof join?.host !== "string") return [400, { error: "join needs the worker's host name" }];
+      // Printable only, so a host name can't rewrite the terminal
+      const host = join.host.replace(/[\x00-\x1f\x7f-\x9f]/g, "").slice(0, MAX_HOST_LENGTH) || "(unnamed)";
+      // A slot given up on before the start goes to the next worker to join
+      const open = workers.find((w) => w.lost);
+      if (state !== "waiting" || (!open && workers.length >= coordinator.workers)) {
+        return [409, { error: `the run already has its ${coordinator.workers} workers` }];
+      }
+      // Contiguous tester ranges, as even as possible
+      const id = open ? open.id : workers.length;
+      const firstTester = Math.floor((id * groups.length) / coordinator.workers);
+      const endTester = Math.floor(((id + 1) * groups.length) / coordinator.workers);
+      workers[id] = {
+        id,
+        host,
+        secret: randomBytes(32).toString("hex"),
+        firstTester,
+        testerCount: endTester - firstTester,
+        phase: "joined",
+        confirmed: 0,
+        failed: 0,
+        lastSeenMs: Date.now(),
+      };
+      return [200, { workerId: id, secret: workers[id].secret }];
+    }
+
+    if (from === "joining") return [404, { error: `no route for ${method} ${path}` }];
+    const worker = from;
+    // A worker only speaks for itself
+    const claimed = Number(method === "GET" ? query.get("worker") : body?.workerId);
+    if (claimed !== worker.id) return [403, { error: `this is worker #${worker.id}, not #${claimed}` }];
+    worker.lastSeenMs = Date.now();
+    // Back before anyone took its slot
+    if (worker.lost && state === "waiting") worker.lost = false;
+
+    if (method === "GET" && path === "/assignment") {
+      return joined() < coordinator.workers ? [204, null] : [200, assignmentFor(worker)];
+    }
+    if (method === "POST" && path === "/heartbeat") {
+      const beat = body as Heartbeat;
+      worker.phase = beat.phase;
+      worker.confirmed = beat.confirmed;
+      worker.failed = beat.failed;
+      const control: Control = {
+        state,
+        startsInMs: state === "running" ? startAt - Date.now() : null,
+        target: curve ? curve.currentTarget : null,
+        nowMs: Date.now(),
+      };
+      return [200, control];
+    }
+    if (method === "POST" && path === "/results") {
+      worker.report = body as WorkerReport;
+      return [200, {}];
+    }
+    return [404, { error: `no route for ${method} ${path}` }];
+  };
+
+  const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    let status: number;
+    let reply: unknown;
+    try {
+      const url = new URL(req.url ?? "/", "http://coordinator");
+      const bearer = /^Bearer (.+)$/.exec(req.headers.authorization ?? "")?.[1];
+      const from = bearer ? caller(url.pathname, bearer) : null;
+      if (!from) {
+        const error = url.pathname === "/join"
+          ? "wrong or missing run token; give the worker the same PRIVATE_KEY as the coordinator"
+          : "unknown worker";
+        [status, reply] = [401, { error }];
+      } else {
+        const text = req.method === "POST" ? await readBody(req) : "";
+        [status, reply] = handle(req.method ?? "GET", url.pathname, url.searchParams, text ? decode(text) : null, from);
+      }
+    } catch (err: any) {
+      [status, reply] = [400, { error: err.message }];
+    }
+    if (reply == null) {
+      res.writeHead(status);
+      res.end();
+    } else {
+      res.writeHead(status, { "content-type": "application/json" });
+      res.end(encode(reply));
+    }
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(coordinator.port, coordinator.host, () => resolve());
+  });
+  const closeServer = () => {
+    server.closeAllConnections();
+    return new Promise<void>((resolve) => server.close(() => resolve()));
+  };
+
+  // Ctrl+C before the start gives up; after it, stops the run early
+  let interrupted = false;
+  const sigintHandler = () => {
+    interrupted = true;
+  };
+  process.on("SIGINT", sigintHandler);
+
+  const spinner = ora().start();
+  const checkLost = () => {
+    for (const w of workers) {
+      if (!w.lost && !w.report && Date.now() - w.lastSeenMs > WORKER_TIMEOUT_MS) {
+        w.lost = true;
+        spinner.warn(
+          state === "waiting"
+            ? `Worker #${w.id} (${w.host}) stopped checking in before the start; its testers go to the next worker to join`
+            : `Worker #${w.id} (${w.host}) stopped checking in; its testers are left out`
+        );
+        spinner.start();
+      }
+    }
+  };
+
+  const ready = () => workers.filter((w) => !w.lost && w.phase !== "joined").length;
+  while (!interrupted && (joined() < coordinator.workers || ready() < coordinator.workers)) {
+    spinner.text = `Waiting for workers on ${coordinator.host}:${coordinator.port}: ${joined()} of ${coordinator.workers} joined, ${ready()} ready (Ctrl+C to abort)`;
+    checkLost();
+    await sleep(HEARTBEAT_MS);
+  }
+  if (interrupted) {
+    // Tell the workers that joined, then go
+    state = "stopped";
+    await sleep(HEARTBEAT_MS * 3);
+    process.removeListener("SIGINT", sigintHandler);
+    await closeServer();
+    spinner.warn("Aborted before the start");
+    return;
+  }
+
+  startAt = Date.now() + START_DELAY_MS;
+  state = "running";
+  const totals = () => workers.reduce((t, w) => ({ confirmed: t.confirmed + w.confirmed, failed: t.failed + w.failed }), { confirmed: 0, failed: 0 });
+  while (!interrupted && Date.now() < startAt + durationSec * 1000) {
+    const now = Date.now();
+    if (now < startAt) {
+      spinner.text = `All ${coordinator.workers} workers ready, starting in ${Math.ceil((startAt - now) / 1000)}s...`;
+    } else {
+      curve?.tick(now - startAt);
+      const elapsed = Math.min(Math.floor((now - startAt) / 1000), durationSec);
+      const { confirmed, failed } = totals();
+      const failedSuffix = failed > 0 ? `, ${failed} failed` : "";
+      const targetSuffix = curve ? ` | target: ${Math.round(curve.currentTarget * 100)}%` : "";
+      spinner.text = `Running on ${coordinator.workers} workers... ${elapsed}s / ${durationSec}s | ${confirmed} txs${failedSuffix}${targetSuffix} (Ctrl+C to stop early)`;
+    }
+    checkLost();
+    await sleep(100);
+  }
+  const testEndTime = Math.max(Date.now(), startAt);
+  state = "stopped";
+
+  const reported = () => workers.filter((w) => w.report || w.lost).length;
+  while (reported() < workers.length) {
+    spinner.text = `Cleaning up... waiting for results from ${workers.length - reported()} of ${workers.length} workers`;
+    checkLost();
+    await sleep(HEARTBEAT_MS);
+  }
+  process.removeListener("SIGINT", sigintHandler);
+  await closeServer();
+
+  const reports = workers.filter((w) => w.report).map((w) => w.report!);
+  // Onto the coordinator's clock, which the start time and the block
+  // timestamps are compared against
+  const results = reports
+    .flatMap((r) => toCoordinatorClock(r.results, r.clockOffsetMs))
+    .sort((a, b) => a.pairIndex - b.pairIndex);
+
+  spinner.text = "Fetching blocks for analysis...";
+  const blocks = await fetchBlocks(provider, collectBlockNumbers(results));
+  annotatePhases(results, blocks);
+  const blockAnalysis = results.some((r) => r.transactions.length > 0) ? analyzeBlocks(results, blocks) : null;
+  spinner.stop();
+
+  const actualDurationMs = testEndTime - startAt;
+  // What the workers' receipt strategies actually chose; with no report at
+  // all, only the config is left to go on
+  const modes = new Set(reports.map((r) => r.receiptMode));
+  const receiptMode: RunConfig["receiptMode"] =
+    modes.size > 1
+      ? "mixed"
+      : modes.size === 1
+        ? [...modes][0]
+        : network.immediateReceipt ? "immediate" : network.wsUrl ? "WebSocket" : "polling";
+  const workerLoops = reports.filter((r) => r.openLoop).map((r) => r.openLoop!);
+  const sum = (key: "offeredSlots" | "peakBacklog" | "finalBacklog") =>
+    workerLoops.reduce((s, l) => s + l[key], 0);
+  const stats = computeStats(results, actualDurationMs, {
+    token,
+    amount,
+    mix,
+    submit,
+    endpoints: network.rpcEndpoints,
+    startTimeMs: startAt,
+    windowMs: windowSec * 1000,
+    percentiles,
+    blocks: blockAnalysis,
+    targetRateAt: peakRate != null ? (ms: number) => peakRate * (curve ? curve.targetAt(ms) : 1) : undefined,
+    openLoop: peakRate != null ? {
+      targetRate: peakRate,
+      shaped: !!curve,
+      offeredSlots: sum("offeredSlots"),
+      // Each worker peaked on its own, so this is an upper bound
+      peakBacklog: sum("peakBacklog"),
+      finalBacklog: sum("finalBacklog"),
+    } : undefined,
+  });
+
+  printWorkers(workers);
+  printSummary(stats, network.name, groups.length, results, trafficShape);
+
+  if (txLogPath) {
+    const txLog = new TxLogWriter(txLogPath);
+    for (const r of results) {
+      for (const tx of r.transactions) txLog.write(r.pairIndex, tx);
+    }
+    await txLog.close().then(
+      () => log.success(`Transaction log written to ${txLogPath}`),
+      (err: Error) => log.error(err.message)
+    );
+  }
+  if (outputPath) {
+    const doc = buildResultsDocument(
+      {
+        network: {
+          name: network.name,
+          chainId: network.chainId,
+          rpcUrl: network.rpcUrl,
+          rpcEndpoints: network.rpcEndpoints,
+          usdcAddress: network.usdcAddress,
+        },
+        parallel: groups.length,
+        durationSec,
+        receiptMode,
+        trafficCurve: curve?.waypoints ?? null,
+        curveSeed: curve?.seed ?? null,
+        curveFile: curve?.file ?? null,
+        curveProfile: curve?.profile ?? null,
+        gasLimits: gasLimits ?? null,
+        inflight: inflight ?? null,
+        topology: groups[0].topology,
+        groupSize: groups[0].wallets.length,
+        token,
+        amountSpec: formatAmountSpec(amount, token.decimals),
+        mix: mix ? formatMix(mix) : null,
+        submit,
+        rpcBatch: network.rpcBatch ?? null,
+        workers: workers.length,
+      },
+      stats,
+      results
+    );
+    writeResults(outputPath, doc);
+    log.success(`Results written to ${outputPath}`);
+  }
+}
+
+function printWorkers(workers: WorkerState[]): void {
+  log.header("Workers");
+  console.log();
+  for (const w of workers) {
+    const range = `testers ${w.firstTester}–${w.firstTester + w.testerCount - 1}`;
+    const txs = w.report ? w.report.results.reduce((n, r) => n + r.transactions.length, 0) : w.confirmed;
+    const line = `  #${w.id}  ${w.host.padEnd(20)} ${range.padEnd(18)} ${txs} txs`;
+    console.log(w.lost ? chalk.yellow(`${line} (lost, not in the summary)`) : chalk.white(line));
+  }
+}
+
+/** Shift a worker's timestamps by its clock offset. */
+function toCoordinatorClock(results: TesterResult[], offsetMs: number): TesterResult[] {
+  if (offsetMs === 0) return results;
+  const shift = (ms: number | null) => (ms == null ? null : ms + offsetMs);
+  return results.map((r) => ({
+    ...r,
+    transactions: r.transactions.map((tx) => ({
+      ...tx,
+      timestampMs: tx.timestampMs + offsetMs,
+      scheduledMs: shift(tx.scheduledMs),
+      sendStartMs: tx.sendStartMs + offsetMs,
+      signedMs: shift(tx.signedMs),
+      broadcastMs: tx.broadcastMs + offsetMs,
+      receiptMs: shift(tx.receiptMs),
+    })),
+    failures: r.failures.map((f) => ({ ...f, timestampMs: f.timestampMs + offsetMs })),
+  }));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk: string) => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,119 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { TesterResult } from "../test/tester.js";
+import type { SubmitMode } from "../test/submit.js";
+import { bigintReplacer, bigintReviver, type RunConfig } from "../test/results.js";
+import type { NetworkConfig } from "../config/networks.js";
+import type { Topology } from "../wallet/topology.js";
+import type { TokenInfo } from "../utils/usdc.js";
+import type { GasLimits } from "../cli.js";
+
+/**
+ * Messages between `usdc-speedtest coordinate` and its workers, sent as JSON
+ * over plain HTTP. Workers make every request; the coordinator only answers,
+ * so it needs no address for them and they can sit behind NAT.
+ *
+ * Every request carries an `Authorization: Bearer` secret. /join takes the
+ * run token, which only holders of the master key can derive; every other
+ * route takes the secret the worker was given at join, which also pins the
+ * worker id it may speak for.
+ *
+ *   POST /join        JoinRequest → JoinResponse
+ *   GET  /assignment  ?worker=<id>; 204 until every worker has joined
+ *   POST /heartbeat   Heartbeat → Control, several times a second
+ *   POST /results     WorkerReport, once the worker's testers have stopped
+ */
+export const DEFAULT_COORDINATOR_PORT = 7545;
+
+/** How often workers check in; also bounds how late they see start and stop. */
+export const HEARTBEAT_MS = 200;
+
+export type JoinRequest = {
+  host: string;
+};
+
+export type JoinResponse = {
+  workerId: number;
+  /** Bearer secret for this worker's later requests. */
+  secret: string;
+};
+
+/** The slice of the run one worker drives. */
+export type Assignment = {
+  workerId: number;
+  network: NetworkConfig;
+  /** Testers firstTester … firstTester + testerCount − 1 of the whole run. */
+  firstTester: number;
+  testerCount: number;
+  topology: Topology;
+  groupSize: number;
+  token: TokenInfo;
+  /** --amount, as given. */
+  amountSpec: string;
+  gasLimits: GasLimits | null;
+  inflight: number | null;
+  /** --mix, as given. */
+  mix: string | null;
+  submit: SubmitMode;
+  /**
+   * Paced runs: this worker's share of the aggregate rate (tx/s), scaled by
+   * the broadcast curve target when `shaped`.
+   */
+  rate: number | null;
+  shaped: boolean;
+};
+
+export type WorkerPhase = "joined" | "ready" | "running" | "finishing";
+
+export type Heartbeat = {
+  workerId: number;
+  phase: WorkerPhase;
+  /** Running totals, for the coordinator's progress line. */
+  confirmed: number;
+  failed: number;
+};
+
+export type Control = {
+  state: "waiting" | "running" | "stopped";
+  /** Running: ms until the synchronized start (negative once it has passed). */
+  startsInMs: number | null;
+  /** Shaped runs: the traffic curve's current target, 0–1. */
+  target: number | null;
+  /** The coordinator's clock when it answered, for the worker's offset estimate. */
+  nowMs: number;
+};
+
+export type WorkerReport = {
+  workerId: number;
+  results: TesterResult[];
+  /** Paced runs: the worker's scheduler counters. */
+  openLoop: { offeredSlots: number; peakBacklog: number; finalBacklog: number } | null;
+  /** How the worker waited for receipts (WebSocket falls back to polling). */
+  receiptMode: RunConfig["receiptMode"];
+  /**
+   * Coordinator clock minus worker clock, estimated from the heartbeat with
+   * the shortest round trip. Timestamps in `results` are on the worker's
+   * clock; the coordinator adds this before merging them.
+   */
+  clockOffsetMs: number;
+};
+
+/** Bearer secret for /join, derived from the master key both sides hold. */
+export function runToken(masterPrivateKey: string): string {
+  return createHmac("sha256", masterPrivateKey).update("usdc-speedtest coordinate").digest("hex");
+}
+
+/** Constant-time comparison, so a secret can't be guessed byte by byte. */
+export function secretMatches(given: string, expected: string): boolean {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/** Bigints travel as decimal strings, as in results files. */
+export function encode(message: unknown): string {
+  return JSON.stringify(message, bigintReplacer);
+}
+
+export function decode<T>(text: string): T {
+  return JSON.parse(text, bigintReviver) as T;
+}
@@ -0,0 +1,242 @@
+import { hostname } from "os";
+import ora from "ora";
+import {
+  decode,
+  encode,
+  HEARTBEAT_MS,
+  runToken,
+  type Assignment,
+  type Control,
+  type Heartbeat,
+  type JoinRequest,
+  type JoinResponse,
+  type WorkerPhase,
+  type WorkerReport,
+} from "./protocol.js";
+import { receiptModeName, runTesters } from "../test/runner.js";
+import { createProvider } from "../test/endpoints.js";
+import { createReceiptStrategy, WsBlockReceiptStrategy } from "../test/receipt.js";
+import { RateScheduler } from "../test/scheduler.js";
+import { parseMix } from "../test/mix.js";
+import type { TesterEvents, TesterResult } from "../test/tester.js";
+import { parseAmountSpec } from "../utils/amount.js";
+import { setRawTxBatching } from "../utils/rpc.js";
+import { deriveWallets, groupWallets } from "../wallet/derive.js";
+
+// Keep trying to join for this long, so workers can be started first
+const JOIN_TIMEOUT_MS = 60_000;
+// Stop the testers if the coordinator has not answered for this long
+const COORDINATOR_TIMEOUT_MS = 15_000;
+
+type Reply<T> = { status: number; body: T | null };
+
+/**
+ * Worker (`usdc-speedtest worker <url>`): joins a coordinator, derives the
+ * wallets of the testers it is assigned from its own PRIVATE_KEY, and runs
+ * them from the coordinator's start signal until its stop signal. The results
+ * go back to the coordinator, which prints the summary.
+ */
+export async function runWorker(coordinatorUrl: string, masterPrivateKey: string): Promise<void> {
+  const base = coordinatorUrl.replace(/\/+$/, "");
+  // The run token until the join, then this worker's own secret
+  let bearer = runToken(masterPrivateKey);
+  const request = async <T>(path: string, body?: unknown): Promise<Reply<T>> => {
+    const authorization = `Bearer ${bearer}`;
+    const res = await fetch(
+      base + path,
+      body === undefined
+        ? { headers: { authorization } }
+        : { method: "POST", headers: { authorization, "content-type": "application/json" }, body: encode(body) }
+    );
+    const text = await res.text();
+    return { status: res.status, body: text ? decode<T>(text) : null };
+  };
+  const refused = (reply: Reply<unknown>) =>
+    new Error(`Coordinator refused: ${(reply.body as { error?: string } | null)?.error ?? `HTTP ${reply.status}`}`);
+
+  // Join, retrying while the coordinator isn't up yet
+  const joinSpinner = ora(`Joining coordinator at ${base}...`).start();
+  const joinDeadline = Date.now() + JOIN_TIMEOUT_MS;
+  let workerId: number | undefined;
+  while (workerId == null) {
+    const join: JoinRequest = { host: hostname() };
+    const reply = await request<JoinResponse>("/join", join).catch((err) => {
+      if (Date.now() > joinDeadline) {
+        joinSpinner.fail(`Could not reach the coordinator at ${base}`);
+        throw err;
+      }
+      return null;
+    });
+    if (reply && reply.status !== 200) {
+      joinSpinner.fail();
+      throw refused(reply);
+    }
+    if (reply) {
+      workerId = reply.body!.workerId;
+      bearer = reply.body!.secret;
+    } else await sleep(1000);
+  }
+
+  joinSpinner.text = `Joined as worker #${workerId}, waiting for the other workers...`;
+  let assignment: Assignment | null = null;
+  while (!assignment) {
+    const reply = await request<Assignment>(`/assignment?worker=${workerId}`);
+    if (reply.status === 200) assignment = reply.body;
+    else if (reply.status === 204) await sleep(500);
+    else {
+      joinSpinner.fail();
+      throw refused(reply);
+    }
+  }
+  const a = assignment;
+  const lastTester = a.firstTester + a.testerCount - 1;
+  joinSpinner.succeed(`Worker #${workerId}: testers ${a.firstTester}–${lastTester} on ${a.network.name}`);
+
+  // Derive only up to the last assigned wallet; positions stay global, so
+  // pair indices and wallet numbers match the coordinator's
+  const wallets = deriveWallets(masterPrivateKey, (lastTester + 1) * a.groupSize);
+  const groups = groupWallets(wallets, a.topology, a.groupSize).slice(a.firstTester);
+  const { network } = a;
+  const provider = createProvider(network);
+  if (network.rpcBatch?.rawTx) {
+    setRawTxBatching(network.rpcBatch);
+  }
+  const receiptStrategy = await createReceiptStrategy(network.wsUrl, network.chainId, network.immediateReceipt);
+
+  // The coordinator's curve target is the shape: it changes as heartbeats arrive
+  let target = 1;
+  const scheduler =
+    a.rate != null ? new RateScheduler(a.rate, a.shaped ? () => target : undefined) : undefined;
+
+  const progress = { confirmed: 0, failed: 0 };
+  const events: TesterEvents = {
+    onTransaction: () => {
+      progress.confirmed++;
+    },
+    onFailure: (_, f) => {
+      if (f.stage === "test" && !f.retried) progress.failed++;
+    },
+  };
+
+  const stopSignal = { stopped: false };
+  let stoppedAt = 0;
+  const stop = () => {
+    if (stopSignal.stopped) return;
+    stopSignal.stopped = true;
+    stoppedAt = Date.now();
+  };
+  let phase = "ready" as WorkerPhase;
+  let testers: Promise<TesterResult[]> | undefined;
+  const start = () => {
+    if (testers || stopSignal.stopped) return;
+    phase = "running";
+    scheduler?.start(Date.now());
+    testers = runTesters(
+      groups,
+      provider,
+      network,
+      receiptStrategy,
+      {
+        amount: parseAmountSpec(a.amountSpec, a.token.decimals),
+        gasLimits: a.gasLimits ?? undefined,
+        inflight: a.inflight ?? undefined,
+        mix: a.mix ? parseMix(a.mix) : undefined,
+        submit: a.submit,
+      },
+      { stopSignal, scheduler, events }
+    );
+  };
+
+  // Ctrl+C stops this worker's testers early; the rest of the run goes on
+  process.on("SIGINT", stop);
+
+  const spinner = ora("Ready, waiting for the start signal...").start();
+  let startTimer: ReturnType<typeof setTimeout> | undefined;
+  let lastContact = Date.now();
+  let stopped = false;
+  // NTP-style: the coordinator's clock read at the midpoint of the round trip
+  let clockOffsetMs = 0;
+  let bestRoundTripMs = Infinity;
+  const heartbeats = (async () => {
+    while (!stopped) {
+      const beat: Heartbeat = { workerId: workerId!, phase, ...progress };
+      const sentAt = Date.now();
+      const control = await request<Control>("/heartbeat", beat).then(
+        (reply) => (reply.status === 200 ? reply.body : null),
+        () => null
+      );
+      if (control) {
+        lastContact = Date.now();
+        if (lastContact - sentAt < bestRoundTripMs) {
+          bestRoundTripMs = lastContact - sentAt;
+          clockOffsetMs = Math.round(control.nowMs - (sentAt + lastContact) / 2);
+        }
+        if (control.target != null) target = control.target;
+        if (control.state === "running" && !startTimer && !testers) {
+          startTimer = setTimeout(start, Math.max(0, control.startsInMs ?? 0));
+        }
+        if (control.state === "stopped") stop();
+      } else if (Date.now() - lastContact > COORDINATOR_TIMEOUT_MS && !stopSignal.stopped) {
+        spinner.warn(`Lost the coordinator; stopping`);
+        stop();
+      }
+      if (stopSignal.stopped) {
+        clearTimeout(startTimer);
+        if (phase === "running") phase = "finishing";
+      }
+      const failedSuffix = progress.failed > 0 ? `, ${progress.failed} failed` : "";
+      spinner.text =
+        phase === "ready"
+          ? "Ready, waiting for the start signal..."
+          : `${phase === "running" ? "Running" : "Finishing"}... ${progress.confirmed} txs${failedSuffix}`;
+      if (stopSignal.stopped && !testers) break;
+      await sleep(HEARTBEAT_MS);
+    }
+  })();
+
+  // Wait for the testers to start and stop (or for a stop before the start)
+  while (!testers && !stopSignal.stopped) await sleep(HEARTBEAT_MS);
+  const results = testers ? await testers : [];
+  stopped = true;
+  await heartbeats;
+  process.removeListener("SIGINT", stop);
+  if (receiptStrategy instanceof WsBlockReceiptStrategy) {
+    await receiptStrategy.destroy();
+  }
+  provider.destroy();
+
+  // Stopped before the start (the coordinator aborted, or Ctrl+C here):
+  // there is nothing to report, and the coordinator may already be gone
+  if (!testers) {
+    spinner.warn("Stopped before the start");
+    return;
+  }
+
+  const report: WorkerReport = {
+    workerId: workerId!,
+    results,
+    openLoop: scheduler
+      ? {
+          offeredSlots: scheduler.dueBy(stoppedAt),
+          peakBacklog: scheduler.peakBacklog,
+          finalBacklog: scheduler.backlog(stoppedAt),
+        }
+      : null,
+    receiptMode: receiptModeName(receiptStrategy),
+    clockOffsetMs,
+  };
+  const reply = await request("/results", report).catch((err) => {
+    spinner.fail(`Could not send results to the coordinator: ${err.message}`);
+    throw err;
+  });
+  if (reply.status !== 200) {
+    spinner.fail();
+    throw refused(reply);
+  }
+  const txs = results.reduce((n, r) => n + r.transactions.length, 0);
+  spinner.succeed(`Sent ${txs} transactions from ${results.length} testers to the coordinator`);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,167 @@
+import type { JsonRpcProvider } from "ethers";
+import type { TesterResult } from "./tester.js";
+import { percentile } from "./stats.js";
+import { pMap } from "../utils/concurrency.js";
+
+export type BlockInfo = {
+  number: number;
+  timestampMs: number;
+  gasUsed: bigint;
+  gasLimit: bigint;
+  txCount: number;
+};
+
+export type BlockAnalysis = {
+  /** Distinct blocks that contain at least one of our txs. */
+  blockCount: number;
+  /** Blocks from the first to the last one we landed in, inclusive. */
+  blockSpan: number;
+  avgOurTxsPerBlock: number;
+  maxOurTxsPerBlock: number;
+  avgTotalTxsPerBlock: number;
+  /** Our txs as a share of all txs in the blocks we landed in (0–1). */
+  ourTxShare: number;
+  /** gasUsed / gasLimit per block (0–1). */
+  avgFullness: number;
+  p50Fullness: number;
+  maxFullness: number;
+  /** Time since the parent block, per block we landed in. */
+  avgBlockTimeMs: number;
+  p50BlockTimeMs: number;
+  p95BlockTimeMs: number;
+  minBlockTimeMs: number;
+  maxBlockTimeMs: number;
+};
+
+/**
+ * Fetch headers for each block, plus each block's parent so block times can
+ * be measured. Blocks that can't be fetched are left out of the map.
+ */
+export async function fetchBlocks(
+  provider: JsonRpcProvider,
+  blockNumbers: number[]
+): Promise<Map<number, BlockInfo>> {
+  const wanted = new Set<number>();
+  for (const n of blockNumbers) {
+    wanted.add(n);
+    if (n > 0) wanted.add(n - 1);
+  }
+  const blocks = new Map<number, BlockInfo>();
+
+  await pMap(
+    [...wanted],
+    async (n) => {
+      const block = await provider.getBlock(n).catch(() => null);
+      if (block) {
+        blocks.set(n, {
+          number: n,
+          timestampMs: block.timestamp * 1000,
+          gasUsed: block.gasUsed,
+          gasLimit: block.gasLimit,
+          txCount: block.transactions.length,
+        });
+      }
+    },
+    10
+  );
+
+  return blocks;
+}
+
+/** Every block number that holds one of the run's transactions. */
+export function collectBlockNumbers(results: TesterResult[]): number[] {
+  const numbers: number[] = [];
+  for (const r of results) {
+    for (const tx of r.transactions) {
+      if (tx.blockNumber != null) numbers.push(tx.blockNumber);
+    }
+  }
+  return numbers;
+}
+
+/**
+ * Split each tx's post-broadcast latency into inclusion (broadcast → block
+ * timestamp) and confirmation (block timestamp → receipt observed).
+ *
+ * The block timestamp is when the block was built, which can be earlier than
+ * our broadcast if the tx made it into a block already under construction.
+ * Inclusion is clamped to [0, broadcast → receipt] so the phases still sum to
+ * the total latency even with some local clock skew.
+ */
+export function annotatePhases(
+  results: TesterResult[],
+  blocks: Map<number, BlockInfo>
+): void {
+  for (const r of results) {
+    for (const tx of r.transactions) {
+      if (tx.blockNumber == null || tx.receiptMs == null) continue;
+      const block = blocks.get(tx.blockNumber);
+      if (!block) continue;
+
+      const postBroadcastMs = tx.receiptMs - tx.broadcastMs;
+      const inclusionMs = Math.min(
+        postBroadcastMs,
+        Math.max(0, block.timestampMs - tx.broadcastMs)
+      );
+      tx.inclusionMs = inclusionMs;
+      tx.confirmationMs = postBroadcastMs - inclusionMs;
+    }
+  }
+}
+
+/**
+ * Summarize the blocks our txs landed in: how much of each block we filled,
+ * how full the blocks were overall, and how far apart they were produced.
+ */
+export function analyzeBlocks(
+  results: TesterResult[],
+  blocks: Map<number, BlockInfo>
+): BlockAnalysis | null {
+  const ourCounts = new Map<number, number>();
+  for (const n of collectBlockNumbers(results)) {
+    if (blocks.has(n)) ourCounts.set(n, (ourCounts.get(n) ?? 0) + 1);
+  }
+  if (ourCounts.size === 0) return null;
+
+  const numbers = [...ourCounts.keys()].sort((a, b) => a - b);
+  let ourTotal = 0;
+  let chainTotal = 0;
+  let maxOurs = 0;
+  const fullness: number[] = [];
+  const blockTimes: number[] = [];
+
+  for (const n of numbers) {
+    const block = blocks.get(n)!;
+    const ours = ourCounts.get(n)!;
+    ourTotal += ours;
+    chainTotal += block.txCount;
+    maxOurs = Math.max(maxOurs, ours);
+    if (block.gasLimit > 0n) {
+      fullness.push(Number((block.gasUsed * 10_000n) / block.gasLimit) / 10_000);
+    }
+    const parent = blocks.get(n - 1);
+    if (parent) blockTimes.push(block.timestampMs - parent.timestampMs);
+  }
+
+  fullness.sort((a, b) => a - b);
+  blockTimes.sort((a, b) => a - b);
+  const avg = (xs: number[]) =>
+    xs.length > 0 ? xs.reduce((a, b) => a + b, 0) / xs.length : 0;
+
+  return {
+    blockCount: numbers.length,
+    blockSpan: numbers[numbers.length - 1] - numbers[0] + 1,
+    avgOurTxsPerBlock: ourTotal / numbers.length,
+    maxOurTxsPerBlock: maxOurs,
+    avgTotalTxsPerBlock: chainTotal / numbers.length,
+    ourTxShare: chainTotal > 0 ? ourTotal / chainTotal : 0,
+    avgFullness: avg(fullness),
+    p50Fullness: percentile(fullness, 50),
+    maxFullness: fullness[fullness.length - 1] ?? 0,
+    avgBlockTimeMs: avg(blockTimes),
+    p50BlockTimeMs: percentile(blockTimes, 50),
+    p95BlockTimeMs: percentile(blockTimes, 95),
+    minBlockTimeMs: blockTimes[0] ?? 0,
+    maxBlockTimeMs: blockTimes[blockTimes.length - 1] ?? 0,
+  };
+}
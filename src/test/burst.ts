@@ -0,0 +1,438 @@
+import chalk from "chalk";
+import ora from "ora";
+import { Contract, Transaction, type JsonRpcProvider } from "ethers";
+import {
+  DEFAULT_TRANSFER_GAS_LIMIT,
+  MAX_RETRIES,
+  RETRY_BASE_MS,
+  classifyError,
+  extractRpcError,
+  isTransientError,
+  type TesterResult,
+  type TxRecord,
+} from "./tester.js";
+import { prepareTest, type RunOptions } from "./runner.js";
+import { computeStats, printSummary } from "./stats.js";
+import { analyzeBlocks, annotatePhases, collectBlockNumbers, fetchBlocks } from "./blocks.js";
+import { buildResultsDocument, writeResults } from "./results.js";
+import { TxLogWriter } from "./tx-log.js";
+import { ERC20_ABI } from "../utils/usdc.js";
+import { createAmountSampler, formatAmountSpec } from "../utils/amount.js";
+import { rpcSendRawTx } from "../utils/rpc.js";
+import { pMap } from "../utils/concurrency.js";
+import { assignEndpoints, endpointsOf } from "./endpoints.js";
+import * as log from "../utils/logger.js";
+import type { WalletGroup } from "../wallet/derive.js";
+import type { NetworkConfig } from "../config/networks.js";
+
+// Stop waiting for receipts once no burst tx has been included for this many
+// block times (but never sooner than DRAIN_IDLE_MIN_MS)
+const DRAIN_IDLE_BLOCKS = 20;
+const DRAIN_IDLE_MIN_MS = 30_000;
+
+export type BurstOptions = {
+  /** Transfers pre-signed for every wallet. */
+  txsPerWallet: number;
+  /** Raw submissions in flight at once. */
+  concurrency: number;
+};
+
+export type BurstSummary = {
+  wallets: number;
+  txsPerWallet: number;
+  concurrency: number;
+  /** Time spent pre-signing every transfer, before the clock started. */
+  signMs: number;
+  /** Broadcasts the RPC accepted (after retries) and ones it rejected. */
+  accepted: number;
+  rejected: number;
+  /** Accepted txs that landed, reverted, or were still missing at the end. */
+  included: number;
+  reverted: number;
+  missing: number;
+  /** First send → last broadcast acknowledged. */
+  submitMs: number;
+  submitRate: number;
+  /** First send → last receipt observed; null if nothing landed. */
+  drainMs: number | null;
+  /**
+   * Throughput measured on chain: included txs over the block-timestamp span
+   * from the parent of the first block we landed in to the last one.
+   */
+  onChain: { firstBlock: number; lastBlock: number; spanMs: number; tps: number } | null;
+};
+
+type SignedTx = {
+  pairIndex: number;
+  walletIndex: number;
+  endpoint: string;
+  address: string;
+  nonce: number;
+  hash: string;
+  serialized: string;
+  amount: bigint;
+  signedMs: number;
+  sendStartMs?: number;
+  broadcastMs?: number;
+};
+
+/**
+ * Burst mode (--burst): sign N self-transfers for every wallet up front with
+ * sequential nonces and fixed fees, fire them all with eth_sendRawTransaction
+ * as fast as the concurrency allows, then wait for the chain to drain them.
+ * Signing and nonce ordering are off the critical path, so the burst measures
+ * how fast the RPC accepts and the chain includes transactions.
+ */
+export async function runBurst(
+  groups: WalletGroup[],
+  provider: JsonRpcProvider,
+  network: NetworkConfig,
+  burst: BurstOptions,
+  options: Pick<RunOptions, "token" | "amount" | "gasLimits" | "outputPath" | "txLogPath" | "percentiles" | "windowSec">
+): Promise<void> {
+  const { token, amount, gasLimits, outputPath, txLogPath, percentiles, windowSec = 10 } = options;
+  const { txsPerWallet, concurrency } = burst;
+
+  if (!(await prepareTest(groups, provider, network, 0, { token, amount, burst: txsPerWallet }))) return;
+
+  // With several endpoints each pair submits through its own, as testers do
+  const endpoints = assignEndpoints(endpointsOf(network), groups.length);
+  const members = groups.flatMap((group, g) =>
+    group.wallets.map((wallet, k) => ({
+      pairIndex: group.index,
+      walletIndex: group.walletIndices[k],
+      endpoint: endpoints[g].url,
+      wallet,
+    }))
+  );
+  const total = members.length * txsPerWallet;
+
+  // Pre-sign everything: nonces and fees are fixed for the whole burst
+  const signSpinner = ora(`Pre-signing ${total} transfers for ${members.length} wallets...`).start();
+  const signStart = Date.now();
+  const [feeData, chainNetwork] = await Promise.all([provider.getFeeData(), provider.getNetwork()]);
+  const feeOverrides = feeData.maxFeePerGas
+    ? { maxFeePerGas: feeData.maxFeePerGas, maxPriorityFeePerGas: feeData.maxPriorityFeePerGas }
+    : { gasPrice: feeData.gasPrice };
+  const iface = new Contract(network.usdcAddress, ERC20_ABI).interface;
+  const drawAmount = createAmountSampler(amount);
+  const startNonces = await pMap(
+    members,
+    (m) => provider.getTransactionCount(m.wallet.address, "pending"),
+    10
+  );
+  const signed: SignedTx[][] = members.map((m, i) =>
+    Array.from({ length: txsPerWallet }, (_, k) => {
+      const value = drawAmount();
+      const tx = Transaction.from({
+        to: network.usdcAddress,
+        // Self-transfers leave the balance where it is, so any order lands
+        data: iface.encodeFunctionData("transfer", [m.wallet.address, value]),
+        gasLimit: gasLimits?.erc20Transfer ?? DEFAULT_TRANSFER_GAS_LIMIT,
+        nonce: startNonces[i] + k,
+        chainId: chainNetwork.chainId,
+        ...feeOverrides,
+      });
+      tx.signature = m.wallet.signingKey.sign(tx.unsignedHash);
+      return {
+        pairIndex: m.pairIndex,
+        walletIndex: m.walletIndex,
+        endpoint: m.endpoint,
+        address: m.wallet.address,
+        nonce: tx.nonce,
+        hash: tx.hash!,
+        serialized: tx.serialized,
+        amount: value,
+        signedMs: Date.now(),
+      };
+    })
+  );
+  const signMs = Date.now() - signStart;
+  signSpinner.succeed(`Pre-signed ${total} transfers in ${fmt(signMs / 1000)}s`);
+
+  // Ctrl+C stops submitting, then stops waiting for receipts
+  const stopSignal = { stopped: false };
+  const sigintHandler = () => {
+    stopSignal.stopped = true;
+  };
+  process.on("SIGINT", sigintHandler);
+
+  const results: TesterResult[] = groups.map((g) => ({
+    pairIndex: g.index,
+    transactions: [],
+    failures: [],
+    completedCleanly: true,
+  }));
+  const resultFor = (tx: SignedTx) => results[groups.findIndex((g) => g.index === tx.pairIndex)];
+  const fail = (tx: SignedTx, err: any, attempt: number, retried: boolean) => {
+    const result = resultFor(tx);
+    result.failures.push({
+      timestampMs: Date.now(),
+      txType: "transfer",
+      endpoint: tx.endpoint,
+      direction: "A→A",
+      nonce: tx.nonce,
+      attempt,
+      category: classifyError(err),
+      retried,
+      stage: "test",
+      message: extractRpcError(err),
+    });
+    if (!retried) result.completedCleanly = false;
+  };
+
+  // Interleave the wallets so each one's nonces go out roughly in order
+  const queue: SignedTx[] = [];
+  for (let k = 0; k < txsPerWallet; k++) {
+    for (const txs of signed) queue.push(txs[k]);
+  }
+
+  const submitSpinner = ora(`Submitting ${total} transfers (${concurrency} in flight)...`).start();
+  const burstStart = Date.now();
+  const accepted: SignedTx[] = [];
+  let rejected = 0;
+  await pMap(
+    queue,
+    async (tx) => {
+      if (stopSignal.stopped) return;
+      tx.sendStartMs = Date.now();
+      for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+        try {
+          await rpcSendRawTx(tx.endpoint, tx.serialized);
+          tx.broadcastMs = Date.now();
+          accepted.push(tx);
+          break;
+        } catch (err: any) {
+          const retry = isTransientError(err) && attempt < MAX_RETRIES && !stopSignal.stopped;
+          fail(tx, err, attempt + 1, retry);
+          if (!retry) {
+            rejected++;
+            break;
+          }
+          await sleep(RETRY_BASE_MS * 2 ** attempt);
+        }
+      }
+      if ((accepted.length + rejected) % 100 === 0) {
+        submitSpinner.text = `Submitting... ${accepted.length + rejected} / ${total} (${rejected} rejected)`;
+      }
+    },
+    concurrency
+  );
+  // (reduce, not Math.max(...xs): bursts can exceed the argument limit)
+  const submitEnd = accepted.reduce((end, tx) => Math.max(end, tx.broadcastMs!), burstStart);
+  const submitMs = submitEnd - burstStart;
+  submitSpinner.succeed(
+    `Submitted ${accepted.length} of ${total} in ${fmt(submitMs / 1000)}s` +
+      (rejected > 0 ? chalk.yellow(` (${rejected} rejected)`) : "")
+  );
+
+  // Drain: a wallet's mined nonce count says how many of its transfers have
+  // landed, so one call per wallet per poll covers the whole burst
+  const drainSpinner = ora("Waiting for the chain to drain the burst...").start();
+  const pollMs = Math.max(network.estimatedBlockTimeMs / 4, 50);
+  const idleLimitMs = Math.max(DRAIN_IDLE_MIN_MS, network.estimatedBlockTimeMs * DRAIN_IDLE_BLOCKS);
+  const byWallet = new Map<string, SignedTx[]>();
+  for (const tx of accepted) {
+    const txs = byWallet.get(tx.address) ?? [];
+    txs.push(tx);
+    byWallet.set(tx.address, txs);
+  }
+  for (const txs of byWallet.values()) txs.sort((a, b) => a.nonce - b.nonce);
+  const observedMs = new Map<string, number>();
+  let lastProgress = Date.now();
+  while (observedMs.size < accepted.length && !stopSignal.stopped && Date.now() - lastProgress < idleLimitMs) {
+    await pMap(
+      [...byWallet.entries()],
+      async ([address, txs]) => {
+        const mined = await provider.getTransactionCount(address, "latest").catch(() => null);
+        if (mined == null) return;
+        const now = Date.now();
+        for (const tx of txs) {
+          if (tx.nonce < mined && !observedMs.has(tx.hash)) {
+            observedMs.set(tx.hash, now);
+            lastProgress = now;
+          }
+        }
+      },
+      10
+    );
+    drainSpinner.text = `Waiting for the chain to drain the burst... ${observedMs.size} / ${accepted.length} included`;
+    if (observedMs.size < accepted.length) await sleep(pollMs);
+  }
+  process.removeListener("SIGINT", sigintHandler);
+  const drainEnd = observedMs.size > 0 ? [...observedMs.values()].reduce((a, b) => Math.max(a, b)) : null;
+
+  drainSpinner.text = `Fetching ${observedMs.size} receipts...`;
+  let reverted = 0;
+  await pMap(
+    accepted,
+    async (tx) => {
+      const receiptMs = observedMs.get(tx.hash);
+      if (receiptMs == null) {
+        fail(tx, new Error("not included before the chain stopped draining the burst"), 1, false);
+        return;
+      }
+      const receipt = await provider.getTransactionReceipt(tx.hash).catch(() => null);
+      if (!receipt || receipt.status === 0) {
+        if (receipt) reverted++;
+        fail(tx, new Error(receipt ? "transaction reverted on-chain" : "nonce was mined but no receipt was found"), 1, false);
+        return;
+      }
+      const record: TxRecord = {
+        txType: "transfer",
+        submitPath: "raw",
+        endpoint: tx.endpoint,
+        txHash: tx.hash,
+        nonce: tx.nonce,
+        latencyMs: receiptMs - tx.sendStartMs!,
+        gasUsed: receipt.gasUsed,
+        direction: "A→A",
+        fromWallet: tx.walletIndex,
+        toWallet: tx.walletIndex,
+        amount: tx.amount,
+        timestampMs: receiptMs,
+        scheduledMs: null,
+        sendStartMs: tx.sendStartMs!,
+        signedMs: tx.signedMs,
+        broadcastMs: tx.broadcastMs!,
+        receiptMs,
+        blockNumber: receipt.blockNumber,
+        effectiveGasPrice: receipt.gasPrice,
+        inclusionMs: null,
+        confirmationMs: null,
+      };
+      resultFor(tx).transactions.push(record);
+    },
+    10
+  );
+  for (const r of results) r.transactions.sort((a, b) => a.sendStartMs - b.sendStartMs);
+
+  drainSpinner.text = "Fetching blocks for analysis...";
+  const blocks = await fetchBlocks(provider, collectBlockNumbers(results));
+  annotatePhases(results, blocks);
+  const blockAnalysis = analyzeBlocks(results, blocks);
+  drainSpinner.stop();
+
+  const included = results.reduce((n, r) => n + r.transactions.length, 0);
+  const summary: BurstSummary = {
+    wallets: members.length,
+    txsPerWallet,
+    concurrency,
+    signMs,
+    accepted: accepted.length,
+    rejected,
+    included,
+    reverted,
+    missing: accepted.length - observedMs.size,
+    submitMs,
+    submitRate: submitMs > 0 ? accepted.length / (submitMs / 1000) : 0,
+    drainMs: drainEnd != null ? drainEnd - burstStart : null,
+    onChain: onChainThroughput(collectBlockNumbers(results), blocks),
+  };
+
+  const durationMs = summary.drainMs ?? submitMs;
+  const stats = computeStats(results, durationMs, {
+    token,
+    amount,
+    endpoints: network.rpcEndpoints,
+    startTimeMs: burstStart,
+    windowMs: windowSec * 1000,
+    percentiles,
+    blocks: blockAnalysis,
+  });
+  printSummary(stats, network.name, groups.length, results);
+  printBurst(summary, network.name);
+
+  if (txLogPath) {
+    const txLog = new TxLogWriter(txLogPath);
+    for (const r of results) {
+      for (const tx of r.transactions) txLog.write(r.pairIndex, tx);
+    }
+    await txLog.close().then(
+      () => log.success(`Transaction log written to ${txLogPath}`),
+      (err: Error) => log.error(err.message)
+    );
+  }
+  if (outputPath) {
+    const doc = buildResultsDocument(
+      {
+        network: {
+          name: network.name,
+          chainId: network.chainId,
+          rpcUrl: network.rpcUrl,
+          rpcEndpoints: network.rpcEndpoints,
+          usdcAddress: network.usdcAddress,
+        },
+        parallel: groups.length,
+        durationSec: durationMs / 1000,
+        receiptMode: "polling",
+        trafficCurve: null,
+        gasLimits: gasLimits ?? null,
+        topology: groups[0].topology,
+        groupSize: groups[0].wallets.length,
+        token,
+        amountSpec: formatAmountSpec(amount, token.decimals),
+        submit: "raw",
+        burst: { txsPerWallet, concurrency },
+        rpcBatch: network.rpcBatch ?? null,
+      },
+      stats,
+      results
+    );
+    doc.burst = summary;
+    writeResults(outputPath, doc);
+    log.success(`Results written to ${outputPath}`);
+  }
+}
+
+/** Included txs per second of block time across the blocks they landed in. */
+function onChainThroughput(
+  blockNumbers: number[],
+  blocks: Map<number, { timestampMs: number }>
+): BurstSummary["onChain"] {
+  // One entry per included tx
+  const landed = blockNumbers.filter((n) => blocks.has(n));
+  if (landed.length === 0) return null;
+  const firstBlock = landed.reduce((a, b) => Math.min(a, b));
+  const lastBlock = landed.reduce((a, b) => Math.max(a, b));
+  // The first block's transactions were collected since its parent
+  const from = blocks.get(firstBlock - 1) ?? blocks.get(firstBlock)!;
+  const spanMs = blocks.get(lastBlock)!.timestampMs - from.timestampMs;
+  return {
+    firstBlock,
+    lastBlock,
+    spanMs,
+    tps: spanMs > 0 ? landed.length / (spanMs / 1000) : 0,
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function fmt(n: number): string {
+  return n.toLocaleString("en-US", { maximumFractionDigits: 2 });
+}
+
+export function printBurst(summary: BurstSummary, networkName: string): void {
+  const s = summary;
+  log.header(`Burst — ${networkName}`);
+  console.log();
+  console.log(chalk.white(`  Pre-signed:          ${s.wallets} wallets × ${s.txsPerWallet} transfers in ${fmt(s.signMs / 1000)}s`));
+  console.log(chalk.white(`  Submitted:           ${s.accepted} accepted, ${s.rejected} rejected (${s.concurrency} in flight)`));
+  console.log(chalk.white(`  Submit time:         ${fmt(s.submitMs / 1000)}s (${fmt(s.submitRate)} tx/s accepted by the RPC)`));
+  const landedColor = s.missing > 0 || s.reverted > 0 ? chalk.yellow : chalk.white;
+  console.log(landedColor(`  Included:            ${s.included} (${s.reverted} reverted, ${s.missing} missing)`));
+  if (s.drainMs != null) {
+    console.log(chalk.bold.white(`  Time to drain:       ${fmt(s.drainMs / 1000)}s (first send → last receipt)`));
+  }
+  if (s.onChain) {
+    const o = s.onChain;
+    console.log(chalk.bold.green(`  On-chain TPS:        ${fmt(o.tps)} tx/s`) +
+      chalk.white(` (blocks ${o.firstBlock}–${o.lastBlock}, ${fmt(o.spanMs / 1000)}s of block time)`));
+  }
+  if (s.missing > 0) {
+    console.log(chalk.yellow("  Missing txs were accepted but never included — the node may have dropped them (mempool limits per sender)"));
+  }
+  console.log(chalk.cyan("\n" + "═".repeat(60) + "\n"));
+}
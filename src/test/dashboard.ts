@@ -0,0 +1,190 @@
+import chalk from "chalk";
+import { formatEther } from "ethers";
+import type { TesterEvents, TxRecord } from "./tester.js";
+import type { TrafficCurve } from "./traffic-curve.js";
+import { percentile } from "./stats.js";
+import { sparkline } from "../utils/chart.js";
+
+// ANSI escape sequences for a full-screen UI
+const ALT_SCREEN_ON = "\x1b[?1049h";
+const ALT_SCREEN_OFF = "\x1b[?1049l";
+const CURSOR_HIDE = "\x1b[?25l";
+const CURSOR_SHOW = "\x1b[?25h";
+const CLEAR = "\x1b[H\x1b[2J";
+
+// Seconds of per-second throughput history kept for the TPS chart
+const TPS_HISTORY_SEC = 120;
+
+export type DashboardOptions = {
+  networkName: string;
+  mode: string;
+  testerCount: number;
+  durationSec: number;
+  /** Rolling window for latency percentiles, in seconds. */
+  latencyWindowSec: number;
+  gasLabel: string;
+  /** Used to price txs that have no receipt (immediate-receipt mode). */
+  fallbackGasPrice: bigint;
+  trafficCurve?: TrafficCurve;
+};
+
+type TesterStatus = {
+  txCount: number;
+  failed: number;
+  /** Pair: "A" or "B"; other topologies: derived wallet "#n" once it moves. */
+  usdcOn: string;
+  lastError?: string;
+};
+
+/**
+ * Refreshing full-screen view of a running test. Fed by tester events, so it
+ * sees exactly what the spinner, CSV log and metrics endpoint see.
+ */
+export class Dashboard {
+  private startTime = 0;
+  private perSecond = new Map<number, number>();
+  private recent: { timestampMs: number; latencyMs: number }[] = [];
+  private testers: TesterStatus[];
+  private gasSpentWei = 0n;
+  private totalTxs = 0;
+  private stopping: { remaining: number } | null = null;
+  private restoreOnExit = () => process.stdout.write(ALT_SCREEN_OFF + CURSOR_SHOW);
+
+  constructor(private opts: DashboardOptions) {
+    this.testers = Array.from({ length: opts.testerCount }, () => ({
+      txCount: 0,
+      failed: 0,
+      usdcOn: "A",
+    }));
+  }
+
+  readonly events: TesterEvents = {
+    onTransaction: (pairIndex, tx) => this.recordTx(pairIndex, tx),
+    onFailure: (pairIndex, failure) => {
+      const t = this.testers[pairIndex];
+      if (!t) return;
+      t.lastError = failure.message;
+      if (failure.stage === "test" && !failure.retried) t.failed++;
+    },
+  };
+
+  private recordTx(pairIndex: number, tx: TxRecord): void {
+    this.totalTxs++;
+    const sec = Math.floor((tx.timestampMs - this.startTime) / 1000);
+    this.perSecond.set(sec, (this.perSecond.get(sec) ?? 0) + 1);
+    this.recent.push({ timestampMs: tx.timestampMs, latencyMs: tx.latencyMs });
+    this.gasSpentWei += tx.gasUsed * (tx.effectiveGasPrice ?? this.opts.fallbackGasPrice);
+
+    const t = this.testers[pairIndex];
+    if (t) {
+      t.txCount++;
+      // Approvals and native sends leave the USDC where it was
+      if (tx.txType === "transfer" || tx.txType === "transferFrom") {
+        t.usdcOn =
+          tx.direction === "A→B"
+            ? "B"
+            : tx.direction === "B→A" || tx.direction === "A→A"
+              ? "A"
+              : `#${tx.direction === "fanout" ? tx.fromWallet : tx.toWallet}`;
+      }
+    }
+  }
+
+  start(startTime: number): void {
+    this.startTime = startTime;
+    process.stdout.write(ALT_SCREEN_ON + CURSOR_HIDE);
+    process.on("exit", this.restoreOnExit);
+    this.render();
+  }
+
+  /** Switch to the shutdown view while testers finish their last tx. */
+  setStopping(remaining: number): void {
+    this.stopping = { remaining };
+  }
+
+  stop(): void {
+    process.removeListener("exit", this.restoreOnExit);
+    this.restoreOnExit();
+  }
+
+  render(): void {
+    const now = Date.now();
+    const { opts } = this;
+    const elapsedSec = Math.min(Math.floor((now - this.startTime) / 1000), opts.durationSec);
+    const fmt = (n: number) => n.toLocaleString("en-US", { maximumFractionDigits: 1 });
+    const width = Math.max(40, (process.stdout.columns ?? 80) - 4);
+    const lines: string[] = [];
+
+    lines.push(chalk.bold.cyan(`  USDC Speedtest — ${opts.networkName} (${opts.mode})`));
+    const progressWidth = Math.max(10, width - 30);
+    const filled = Math.round((elapsedSec / opts.durationSec) * progressWidth);
+    lines.push(
+      `  ${chalk.cyan("█".repeat(filled))}${chalk.gray("░".repeat(progressWidth - filled))} ${elapsedSec}s / ${opts.durationSec}s`
+    );
+    if (this.stopping) {
+      lines.push(chalk.yellow(`  Stopping... ${this.stopping.remaining} of ${opts.testerCount} testers still finishing`));
+    } else {
+      lines.push(chalk.gray("  Ctrl+C to stop early"));
+    }
+    lines.push("");
+
+    // Throughput: completed seconds only, so the current partial second doesn't read as a dip
+    const currentSec = Math.floor((now - this.startTime) / 1000);
+    const historyStart = Math.max(0, currentSec - TPS_HISTORY_SEC);
+    const tps: number[] = [];
+    for (let s = historyStart; s < currentSec; s++) tps.push(this.perSecond.get(s) ?? 0);
+    const last = tps[tps.length - 1] ?? 0;
+    const peak = tps.length > 0 ? Math.max(...tps) : 0;
+    const avg = elapsedSec > 0 ? this.totalTxs / elapsedSec : 0;
+    lines.push(chalk.white.bold("  Throughput"));
+    lines.push(`    ${chalk.green(sparkline(tps, Math.min(TPS_HISTORY_SEC, width - 6)))}`);
+    lines.push(`    now ${fmt(last)} tx/s   avg ${fmt(avg)} tx/s   peak ${fmt(peak)} tx/s   total ${this.totalTxs}`);
+    lines.push("");
+
+    // Rolling latency percentiles
+    const cutoff = now - opts.latencyWindowSec * 1000;
+    this.recent = this.recent.filter((r) => r.timestampMs >= cutoff);
+    const lat = this.recent.map((r) => r.latencyMs).sort((a, b) => a - b);
+    lines.push(chalk.white.bold(`  Latency (last ${opts.latencyWindowSec}s, ${lat.length} txs)`));
+    lines.push(
+      `    p50 ${fmt(percentile(lat, 50))} ms   p95 ${fmt(percentile(lat, 95))} ms   p99 ${fmt(percentile(lat, 99))} ms   max ${fmt(lat[lat.length - 1] ?? 0)} ms`
+    );
+    lines.push("");
+
+    if (opts.trafficCurve) {
+      const curve = opts.trafficCurve;
+      const totalMs = curve.waypoints[curve.waypoints.length - 1].timeMs;
+      // Sample evenly in time — waypoints themselves are unevenly spaced
+      const samples = width - 6;
+      const shape = sparkline(
+        Array.from({ length: samples }, (_, i) => curve.targetAt((i / (samples - 1)) * totalMs)),
+        samples
+      );
+      const marker = Math.min(samples - 1, Math.floor(((now - this.startTime) / totalMs) * samples));
+      lines.push(chalk.white.bold(`  Traffic curve — target ${Math.round(curve.currentTarget * 100)}%`));
+      lines.push(`    ${chalk.magenta(shape)}`);
+      lines.push(`    ${" ".repeat(Math.max(0, marker))}${chalk.bold("^")}`);
+      lines.push("");
+    }
+
+    lines.push(chalk.white.bold("  Gas spent (est.)"));
+    lines.push(`    ${formatEther(this.gasSpentWei)} ${opts.gasLabel}`);
+    lines.push("");
+
+    // Per-tester grid, trimmed to whatever fits on screen
+    lines.push(chalk.white.bold("  Testers"));
+    const rowsLeft = Math.max(3, (process.stdout.rows ?? 40) - lines.length - 2);
+    const shown = this.testers.slice(0, rowsLeft - 1);
+    for (let i = 0; i < shown.length; i++) {
+      const t = shown[i];
+      const err = t.lastError ? chalk.yellow(` ${t.lastError.slice(0, Math.max(0, width - 44))}`) : "";
+      const failed = chalk.red((t.failed > 0 ? `${t.failed} failed` : "").padEnd(10));
+      lines.push(`    #${String(i).padEnd(4)} ${String(t.txCount).padStart(6)} txs  USDC on ${t.usdcOn}  ${failed}${err}`);
+    }
+    if (this.testers.length > shown.length) {
+      lines.push(chalk.gray(`    … ${this.testers.length - shown.length} more`));
+    }
+
+    process.stdout.write(CLEAR + lines.join("\n") + "\n");
+  }
+}
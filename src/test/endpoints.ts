@@ -0,0 +1,40 @@
+import { JsonRpcProvider } from "ethers";
+import type { NetworkConfig, RpcEndpoint } from "../config/networks.js";
+
+/** The endpoints testers are spread over: rpcEndpoints, or just rpcUrl. */
+export function endpointsOf(network: NetworkConfig): RpcEndpoint[] {
+  return network.rpcEndpoints ?? [{ url: network.rpcUrl, weight: 1 }];
+}
+
+/**
+ * The endpoint each of `count` testers sends through, by smooth weighted
+ * round-robin: every endpoint gets its share of testers, interleaved rather
+ * than in runs, so weights 2,1 give A B A A B A ...
+ */
+export function assignEndpoints(endpoints: RpcEndpoint[], count: number): RpcEndpoint[] {
+  const total = endpoints.reduce((sum, e) => sum + e.weight, 0);
+  const current = endpoints.map(() => 0);
+  return Array.from({ length: count }, () => {
+    let best = 0;
+    for (let i = 0; i < endpoints.length; i++) {
+      current[i] += endpoints[i].weight;
+      if (current[i] > current[best]) best = i;
+    }
+    current[best] -= total;
+    return endpoints[best];
+  });
+}
+
+/**
+ * A provider for one endpoint of `network`. Receipt polling and balance
+ * checks go through it. ethers batches those calls by default (up to 100
+ * within 10 ms), so they are batched either way; --batch-size and
+ * --batch-window only change the two limits.
+ */
+export function createProvider(network: NetworkConfig, url = network.rpcUrl): JsonRpcProvider {
+  const { rpcBatch } = network;
+  return new JsonRpcProvider(url, network.chainId, {
+    staticNetwork: true,
+    ...(rpcBatch && { batchMaxCount: rpcBatch.maxCount, batchStallTime: rpcBatch.stallMs }),
+  });
+}
@@ -0,0 +1,235 @@
+import chalk from "chalk";
+import type { JsonRpcProvider } from "ethers";
+import { createReceiptStrategy, WsBlockReceiptStrategy } from "./receipt.js";
+import {
+  prepareTest,
+  receiptModeName,
+  runPhase,
+  type PhaseResult,
+  type RunOptions,
+} from "./runner.js";
+import { buildResultsDocument, writeResults } from "./results.js";
+import { formatMix } from "./mix.js";
+import { formatAmountSpec } from "../utils/amount.js";
+import * as log from "../utils/logger.js";
+import type { WalletGroup } from "../wallet/derive.js";
+import type { NetworkConfig } from "../config/networks.js";
+
+// A step must beat the best throughput so far by this much to count as progress
+const MIN_TPS_GAIN = 0.05;
+
+export type FindMaxOptions = {
+  /** Open-loop rate of the first step, tx/s. */
+  startRate: number;
+  /** Each step multiplies the rate by this factor. */
+  stepFactor: number;
+  stepDurationSec: number;
+  maxSteps: number;
+  /** Stop once a step's p95 latency exceeds this. */
+  maxP95Ms: number;
+};
+
+export type CapacityStep = {
+  offeredRate: number;
+  achievedRate: number;
+  p95LatencyMs: number;
+  successRate: number;
+  finalBacklog: number;
+  /** Average gas fullness of the blocks our txs landed in, 0–1. */
+  blockFullness: number | null;
+};
+
+export type CapacitySearch = {
+  steps: CapacityStep[];
+  /** Index of the last step that raised throughput within the latency limit. */
+  saturationStep: number | null;
+  stopReason: string;
+};
+
+/** Mean rate over a full search, which wallets are funded for. */
+export function searchMeanRate(options: FindMaxOptions): number {
+  const { startRate, stepFactor, maxSteps } = options;
+  let total = 0;
+  for (let i = 0; i < maxSteps; i++) total += startRate * stepFactor ** i;
+  return total / maxSteps;
+}
+
+/**
+ * Capacity search (--find-max): run short open-loop phases at increasing
+ * rates and stop at the knee, where throughput stops growing or latency
+ * crosses the limit. Every slot is dispatched when due (see
+ * runPipelinedTester), so the offered rate doesn't depend on confirmation
+ * latency and the knee is the chain's, not the testers'.
+ */
+export async function findMax(
+  groups: WalletGroup[],
+  provider: JsonRpcProvider,
+  network: NetworkConfig,
+  options: FindMaxOptions,
+  runOptions: RunOptions
+): Promise<void> {
+  const { startRate, stepFactor, stepDurationSec, maxSteps, maxP95Ms } = options;
+
+  const maxDurationSec = stepDurationSec * maxSteps;
+  if (!(await prepareTest(groups, provider, network, maxDurationSec, runOptions))) {
+    return;
+  }
+
+  const receiptStrategy = await createReceiptStrategy(
+    network.wsUrl,
+    network.chainId,
+    network.immediateReceipt
+  );
+
+  const steps: CapacityStep[] = [];
+  const phases: PhaseResult[] = [];
+  let best: number | null = null;
+  let stopReason = `reached the step limit (${maxSteps})`;
+
+  try {
+    let rate = startRate;
+    for (let i = 0; i < maxSteps; i++) {
+      console.log();
+      log.header(`Step ${i + 1} of up to ${maxSteps} — ${fmt(rate)} tx/s`);
+
+      const phase = await runPhase(groups, provider, network, stepDurationSec, receiptStrategy, {
+        ...runOptions,
+        rate,
+      });
+      const { stats } = phase;
+      const step: CapacityStep = {
+        offeredRate: stats.openLoop?.offeredRate ?? rate,
+        achievedRate: stats.transactionsPerSecond,
+        p95LatencyMs: stats.p95LatencyMs,
+        successRate: stats.successRate,
+        finalBacklog: stats.openLoop?.finalBacklog ?? 0,
+        blockFullness: stats.blocks?.avgFullness ?? null,
+      };
+      steps.push(step);
+      phases.push(phase);
+      log.info(
+        `Achieved ${fmt(step.achievedRate)} tx/s, p95 ${fmt(step.p95LatencyMs)} ms, ${fmt(step.successRate * 100)}% success`
+      );
+
+      if (phase.interrupted) {
+        stopReason = "interrupted";
+        break;
+      }
+      if (step.p95LatencyMs > maxP95Ms) {
+        stopReason = `p95 latency ${fmt(step.p95LatencyMs)} ms exceeded ${fmt(maxP95Ms)} ms`;
+        break;
+      }
+      if (phase.results.some((r) => !r.completedCleanly)) {
+        stopReason = "testers errored out";
+        break;
+      }
+      // Uncapped testers send every slot on time; a backlog means --inflight
+      // held them back, so this step measured the cap rather than the chain
+      if (runOptions.inflight != null && step.finalBacklog > 0) {
+        stopReason = `testers fell behind the offered rate at --inflight ${runOptions.inflight} (backlog ${step.finalBacklog})`;
+        break;
+      }
+      if (best != null && step.achievedRate < steps[best].achievedRate * (1 + MIN_TPS_GAIN)) {
+        stopReason = "throughput stopped increasing";
+        break;
+      }
+      best = i;
+      rate *= stepFactor;
+    }
+  } finally {
+    if (receiptStrategy instanceof WsBlockReceiptStrategy) {
+      await receiptStrategy.destroy();
+    }
+  }
+
+  // The knee is the last step that still made progress; the step that
+  // stopped the search (stalled, too slow, or cut short) doesn't count
+  const saturationStep = best;
+  const search: CapacitySearch = { steps, saturationStep, stopReason };
+  printCapacitySearch(search, network.name, groups.length);
+
+  if (runOptions.outputPath && saturationStep != null) {
+    const { stats, results } = phases[saturationStep];
+    const doc = buildResultsDocument(
+      {
+        network: {
+          name: network.name,
+          chainId: network.chainId,
+          rpcUrl: network.rpcUrl,
+          rpcEndpoints: network.rpcEndpoints,
+          usdcAddress: network.usdcAddress,
+        },
+        parallel: groups.length,
+        durationSec: stepDurationSec,
+        receiptMode: receiptModeName(receiptStrategy),
+        trafficCurve: null,
+        gasLimits: runOptions.gasLimits ?? null,
+        inflight: runOptions.inflight ?? null,
+        topology: groups[0].topology,
+        groupSize: groups[0].wallets.length,
+        token: runOptions.token,
+        amountSpec: formatAmountSpec(runOptions.amount, runOptions.token.decimals),
+        relayers: runOptions.relay?.wallets.length ?? null,
+        mix: runOptions.mix ? formatMix(runOptions.mix) : null,
+        submit: runOptions.submit ?? "ethers",
+        rpcBatch: network.rpcBatch ?? null,
+      },
+      stats,
+      results
+    );
+    doc.capacitySearch = search;
+    writeResults(runOptions.outputPath, doc);
+    log.success(`Results for the saturation step written to ${runOptions.outputPath}`);
+  }
+}
+
+function fmt(n: number): string {
+  return n.toLocaleString("en-US", { maximumFractionDigits: 2 });
+}
+
+export function printCapacitySearch(
+  search: CapacitySearch,
+  networkName: string,
+  parallelTesters: number
+): void {
+  log.header(`Capacity Search — ${networkName}`);
+  console.log();
+
+  const rows = [["Step", "Offered", "Achieved", "p95", "Success", "Backlog", "Block fullness"]];
+  search.steps.forEach((s, i) => {
+    rows.push([
+      String(i + 1),
+      `${fmt(s.offeredRate)} tx/s`,
+      `${fmt(s.achievedRate)} tx/s`,
+      `${fmt(s.p95LatencyMs)} ms`,
+      `${fmt(s.successRate * 100)}%`,
+      String(s.finalBacklog),
+      s.blockFullness != null ? `${fmt(s.blockFullness * 100)}%` : "—",
+    ]);
+  });
+  const widths = rows[0].map((_, i) => Math.max(...rows.map((r) => r[i].length)));
+  rows.forEach((row, i) => {
+    const line = row.map((c, j) => (j === 0 ? c.padEnd(widths[j]) : c.padStart(widths[j]))).join("   ");
+    const isKnee = search.saturationStep != null && i - 1 === search.saturationStep;
+    if (i === 0) console.log(chalk.white.bold(`    ${line}`));
+    else if (isKnee) console.log(chalk.bold.green(`    ${line}  ◀ saturation`));
+    else console.log(chalk.white(`    ${line}`));
+  });
+
+  console.log();
+  console.log(chalk.white(`  Stopped:             ${search.stopReason}`));
+  if (search.saturationStep == null) {
+    console.log(chalk.yellow("  No step completed within the limits — lower --start-rate or raise --max-p95"));
+  } else {
+    const knee = search.steps[search.saturationStep];
+    console.log(chalk.bold.green(`  Saturation point:    ~${fmt(knee.achievedRate)} tx/s at p95 ${fmt(knee.p95LatencyMs)} ms`));
+    if (knee.blockFullness != null && knee.blockFullness >= 0.9) {
+      console.log(chalk.white("  Blocks were near their gas limit at the knee — this is the chain's capacity"));
+    } else if (knee.blockFullness != null) {
+      console.log(chalk.yellow(`  Blocks had spare gas at the knee — the limit is before block building: the RPC endpoint, the mempool,`));
+      console.log(chalk.yellow(`  or its per-sender pending limit (spread the load over more than ${parallelTesters} senders with -p)`));
+    }
+  }
+
+  console.log(chalk.cyan("\n" + "═".repeat(60) + "\n"));
+}
@@ -0,0 +1,40 @@
+import type { HDNodeWallet } from "ethers";
+
+/**
+ * Shared state for mesh topology, where a tester's USDC hops to random
+ * wallets anywhere in the derived set.
+ *
+ * A wallet holds at most one tester's USDC at a time (recipients are picked
+ * among wallets holding none), so only one tester ever signs from a given
+ * wallet. Its next nonce is kept here because the tester that sends from it
+ * next may not be the one that sent from it last.
+ */
+export class MeshRegistry {
+  /** Next nonce per derived-wallet index, filled in on first use. */
+  readonly nonces = new Map<number, number>();
+  private holding = new Set<number>();
+
+  constructor(
+    readonly wallets: HDNodeWallet[],
+    homes: number[]
+  ) {
+    for (const home of homes) this.holding.add(home);
+  }
+
+  /** Pick a random wallet that holds no USDC and reserve it as a recipient. */
+  claim(): number {
+    // Every tester holds one wallet, so at least half are free
+    for (;;) {
+      const i = Math.floor(Math.random() * this.wallets.length);
+      if (!this.holding.has(i)) {
+        this.holding.add(i);
+        return i;
+      }
+    }
+  }
+
+  /** The USDC left `index` (or a claimed transfer to it failed). */
+  release(index: number): void {
+    this.holding.delete(index);
+  }
+}
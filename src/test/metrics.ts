@@ -0,0 +1,125 @@
+import { createServer, type Server } from "http";
+import type { TesterEvents, TxRecord } from "./tester.js";
+
+// Prometheus histogram buckets for tx latency, in seconds
+const LATENCY_BUCKETS_SEC = [0.1, 0.25, 0.5, 1, 2, 3, 5, 8, 13, 20, 30, 60];
+
+const PREFIX = "usdc_speedtest";
+
+type Labels = { tester: number; direction: string };
+
+function labelKey({ tester, direction }: Labels): string {
+  // Prometheus label values must be plain strings; avoid the "→" arrow
+  const dir = direction.replace("→", "_to_").toLowerCase();
+  return `tester="${tester}",direction="${dir}"`;
+}
+
+function increment(map: Map<string, number>, key: string, by = 1): void {
+  map.set(key, (map.get(key) ?? 0) + by);
+}
+
+/**
+ * In-memory counters fed by tester events and rendered in the Prometheus
+ * text exposition format on every scrape.
+ */
+export class MetricsRegistry {
+  private sent = new Map<string, number>();
+  private confirmed = new Map<string, number>();
+  private failed = new Map<string, number>();
+  private retries = new Map<string, number>();
+  private latencyBuckets = new Array<number>(LATENCY_BUCKETS_SEC.length).fill(0);
+  private latencySum = 0;
+  private latencyCount = 0;
+  private inflight = 0;
+
+  /** Reads the current traffic curve target (0–1); omitted when not shaping. */
+  constructor(private trafficTarget?: () => number) {}
+
+  readonly events: TesterEvents = {
+    onSend: (tester, direction) => {
+      increment(this.sent, labelKey({ tester, direction }));
+      this.inflight++;
+    },
+    onTransaction: (tester, tx) => {
+      increment(this.confirmed, labelKey({ tester, direction: tx.direction }));
+      this.observeLatency(tx);
+      this.inflight--;
+    },
+    onFailure: (tester, failure) => {
+      // Return-trip sends happen after the test and are not counted as sent
+      if (failure.stage !== "test") return;
+      const key = labelKey({ tester, direction: failure.direction });
+      if (failure.retried) increment(this.retries, key);
+      else increment(this.failed, key);
+      this.inflight--;
+    },
+  };
+
+  private observeLatency(tx: TxRecord): void {
+    const sec = tx.latencyMs / 1000;
+    for (let i = 0; i < LATENCY_BUCKETS_SEC.length; i++) {
+      if (sec <= LATENCY_BUCKETS_SEC[i]) this.latencyBuckets[i]++;
+    }
+    this.latencySum += sec;
+    this.latencyCount++;
+  }
+
+  render(): string {
+    const lines: string[] = [];
+
+    const counter = (name: string, help: string, values: Map<string, number>) => {
+      lines.push(`# HELP ${PREFIX}_${name} ${help}`);
+      lines.push(`# TYPE ${PREFIX}_${name} counter`);
+      for (const [labels, value] of values) {
+        lines.push(`${PREFIX}_${name}{${labels}} ${value}`);
+      }
+    };
+    const gauge = (name: string, help: string, value: number) => {
+      lines.push(`# HELP ${PREFIX}_${name} ${help}`);
+      lines.push(`# TYPE ${PREFIX}_${name} gauge`);
+      lines.push(`${PREFIX}_${name} ${value}`);
+    };
+
+    counter("tx_sent_total", "Send attempts, including retries.", this.sent);
+    counter("tx_confirmed_total", "Transactions confirmed (or broadcast in immediate mode).", this.confirmed);
+    counter("tx_failed_total", "Transactions given up on after retries.", this.failed);
+    counter("tx_retries_total", "Send attempts that failed and were retried.", this.retries);
+
+    lines.push(`# HELP ${PREFIX}_tx_latency_seconds End-to-end transaction latency.`);
+    lines.push(`# TYPE ${PREFIX}_tx_latency_seconds histogram`);
+    LATENCY_BUCKETS_SEC.forEach((le, i) => {
+      lines.push(`${PREFIX}_tx_latency_seconds_bucket{le="${le}"} ${this.latencyBuckets[i]}`);
+    });
+    lines.push(`${PREFIX}_tx_latency_seconds_bucket{le="+Inf"} ${this.latencyCount}`);
+    lines.push(`${PREFIX}_tx_latency_seconds_sum ${this.latencySum}`);
+    lines.push(`${PREFIX}_tx_latency_seconds_count ${this.latencyCount}`);
+
+    gauge("inflight", "Send attempts awaiting a result.", this.inflight);
+    if (this.trafficTarget) {
+      gauge("traffic_target", "Current traffic curve target (0-1).", this.trafficTarget());
+    }
+
+    return lines.join("\n") + "\n";
+  }
+}
+
+/** Serve the registry on GET /metrics. Resolves once the port is bound. */
+export function startMetricsServer(
+  port: number,
+  registry: MetricsRegistry
+): Promise<Server> {
+  const server = createServer((req, res) => {
+    if (req.method === "GET" && req.url?.split("?")[0] === "/metrics") {
+      res.writeHead(200, { "content-type": "text/plain; version=0.0.4" });
+      res.end(registry.render());
+    } else {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, () => resolve(server));
+  });
+}
@@ -0,0 +1,67 @@
+/**
+ * Transaction types a mixed workload (--mix) draws from:
+ *   transfer      the holder transfers the token to the recipient
+ *   approve       the holder approves the recipient to spend its tokens
+ *   transferFrom  the recipient pulls the token from the holder (approving it
+ *                 first if its allowance is short)
+ *   native        the holder sends 1 wei of the native coin to the recipient
+ * Only transfer and transferFrom move the token.
+ */
+export const TX_TYPES = ["transfer", "approve", "transferFrom", "native"] as const;
+export type TxType = (typeof TX_TYPES)[number];
+
+/** Weighted transaction types; weights are relative, not percentages. */
+export type TxMix = { type: TxType; weight: number }[];
+
+/** What the testers send without --mix. */
+export const TRANSFER_ONLY: TxMix = [{ type: "transfer", weight: 1 }];
+
+/** Parse an --mix value such as "transfer:70,approve:10,transferFrom:15,native:5". */
+export function parseMix(spec: string): TxMix {
+  const mix: TxMix = [];
+  for (const part of spec.split(",")) {
+    const [type, weightArg] = part.trim().split(":");
+    const weight = Number(weightArg);
+    if (!TX_TYPES.includes(type as TxType)) {
+      throw new Error(`Invalid --mix "${spec}": unknown type "${type}" (use ${TX_TYPES.join(", ")})`);
+    }
+    if (weightArg == null || !(weight >= 0)) {
+      throw new Error(`Invalid --mix "${spec}": expected <type>:<weight> with a non-negative weight`);
+    }
+    if (mix.some((m) => m.type === type)) {
+      throw new Error(`Invalid --mix "${spec}": "${type}" is listed twice`);
+    }
+    if (weight > 0) mix.push({ type: type as TxType, weight });
+  }
+  if (mix.length === 0) {
+    throw new Error(`Invalid --mix "${spec}": all weights are zero`);
+  }
+  return mix;
+}
+
+/** Share of draws that are `type`, 0–1. */
+export function mixShare(mix: TxMix, type: TxType): number {
+  const total = mix.reduce((s, m) => s + m.weight, 0);
+  return (mix.find((m) => m.type === type)?.weight ?? 0) / total;
+}
+
+/** Draws transaction types by weight; `random` returns floats in [0, 1). */
+export function createMixSampler(
+  mix: TxMix,
+  random: () => number = Math.random
+): () => TxType {
+  const total = mix.reduce((s, m) => s + m.weight, 0);
+  return () => {
+    let r = random() * total;
+    for (const m of mix) {
+      r -= m.weight;
+      if (r < 0) return m.type;
+    }
+    return mix[mix.length - 1].type;
+  };
+}
+
+/** "transfer:70,approve:10,…" — the --mix argument that reproduces `mix`. */
+export function formatMix(mix: TxMix): string {
+  return mix.map((m) => `${m.type}:${m.weight}`).join(",");
+}
@@ -0,0 +1,322 @@
+import { Contract, Wallet } from "ethers";
+import { ERC20_ABI } from "../utils/usdc.js";
+import { createAmountSampler } from "../utils/amount.js";
+import type { WalletGroup } from "../wallet/derive.js";
+import {
+  DEFAULT_TRANSFER_GAS_LIMIT,
+  MAX_RETRIES,
+  RETRY_BASE_MS,
+  classifyError,
+  extractRpcError,
+  isTransientError,
+  type PipelineStats,
+  type TesterContext,
+  type TesterResult,
+  type TxFailure,
+  type TxRecord,
+} from "./tester.js";
+import { submitWithEthers } from "./submit.js";
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Pipelined tester (--inflight N): the group's first wallet keeps up to N USDC
+ * transfers in flight, each with the next local nonce. In a pair these are
+ * self-transfers, which leave the USDC where it is, so there is no ping-pong
+ * with the receiver and no return trip at the end. In a fanout the hot wallet
+ * pays the recipients round-robin.
+ *
+ * Paced runs (a scheduler in `ctx`) are open-loop: every send slot is
+ * dispatched as soon as it is due, without waiting for earlier receipts, and
+ * latency counts from the slot's scheduled time. `inflight` then only caps
+ * the sends outstanding (none when undefined); a capped tester leaves due
+ * slots to the backlog.
+ *
+ * If a send is given up on, its nonce becomes a gap: every later nonce is
+ * stuck in the mempool until it is filled. The tester stops claiming nonces
+ * and the send that failed makes one more round of attempts to close the gap.
+ * If that fails too, the sends still waiting on later nonces give up and are
+ * recorded as failures, so the tester always finishes.
+ */
+export async function runPipelinedTester(
+  group: WalletGroup,
+  inflight: number | undefined,
+  ctx: TesterContext
+): Promise<TesterResult> {
+  const {
+    provider,
+    usdcAddress,
+    estimatedBlockTimeMs,
+    stopSignal,
+    receiptStrategy,
+    immediateReceipt,
+    rpcUrl,
+    erc20GasLimit,
+    scheduler,
+    amount,
+    submit = submitWithEthers,
+    events = {},
+  } = ctx;
+  const transferGasLimit = erc20GasLimit ?? DEFAULT_TRANSFER_GAS_LIMIT;
+  const wallet = new Wallet(group.wallets[0].privateKey, provider);
+  const fromWallet = group.walletIndices[0];
+  const fanout = group.topology === "fanout";
+  const direction: TxRecord["direction"] = fanout ? "fanout" : "A→A";
+
+  // Recipient k of the group (0 = the sending wallet itself). The sender pays
+  // out of its own balance, so every transfer draws a fresh amount.
+  const iface = new Contract(usdcAddress, ERC20_ABI).interface;
+  const drawAmount = createAmountSampler(amount);
+  const transferTo = (recipient: number, value: bigint) =>
+    iface.encodeFunctionData("transfer", [group.wallets[recipient].address, value]);
+
+  const [initNonce, feeData] = await Promise.all([
+    provider.getTransactionCount(wallet.address, "pending"),
+    provider.getFeeData(),
+  ]);
+
+  const feeOverrides = feeData.maxFeePerGas
+    ? {
+        maxFeePerGas: feeData.maxFeePerGas,
+        maxPriorityFeePerGas: feeData.maxPriorityFeePerGas,
+      }
+    : { gasPrice: feeData.gasPrice };
+
+  const transactions: TxRecord[] = [];
+  const failures: TxFailure[] = [];
+  const record = (fields: Omit<TxRecord, "endpoint">) => {
+    const tx = { ...fields, endpoint: rpcUrl };
+    transactions.push(tx);
+    events.onTransaction?.(group.index, tx);
+  };
+  const fail = (fields: Omit<TxFailure, "endpoint">) => {
+    const failure = { ...fields, endpoint: rpcUrl };
+    failures.push(failure);
+    events.onFailure?.(group.index, failure);
+  };
+
+  const pipeline: PipelineStats = {
+    inflight: inflight ?? null,
+    peakInflight: 0,
+    nonceGaps: 0,
+    gapsFilled: 0,
+    outOfOrderReceipts: 0,
+  };
+
+  // Shared by all sends: the next nonce to hand out and the highest nonce
+  // a receipt has been seen for
+  let nextNonce = initNonce;
+  // Fanout pays recipients 1..n-1 in nonce order; a pair sends to itself
+  const recipientFor = (nonce: number) =>
+    fanout ? 1 + ((nonce - initNonce) % (group.wallets.length - 1)) : 0;
+  let highestReceiptNonce = -1;
+  let expectedConfirmMs = estimatedBlockTimeMs;
+  let erroredOut = false;
+  let halted = false;
+  // Lowest gap that could not be filled: every later nonce is stuck for good,
+  // so receipt waits for them are abandoned and recorded as failures
+  let strandedAfter: number | null = null;
+  const stranded = (nonce: number) => strandedAfter != null && nonce > strandedAfter;
+
+  /** Resolves to false if the gap is still open. */
+  const fillGap = async (nonce: number): Promise<boolean> => {
+    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+      try {
+        const { response: tx } = await submit(wallet, {
+          to: usdcAddress,
+          data: transferTo(recipientFor(nonce), drawAmount()),
+          gasLimit: transferGasLimit,
+          nonce,
+          ...feeOverrides,
+        });
+        if (!immediateReceipt) {
+          await receiptStrategy.waitForReceipt(provider, tx, expectedConfirmMs, () => stranded(nonce));
+        }
+        pipeline.gapsFilled++;
+        return true;
+      } catch (err: any) {
+        const message = extractRpcError(err);
+        // Some tx with this nonce did land (the original, or an earlier fill)
+        if (message.toLowerCase().includes("nonce too low")) {
+          pipeline.gapsFilled++;
+          return true;
+        }
+        const retry = !stranded(nonce) && isTransientError(err) && attempt < MAX_RETRIES;
+        fail({
+          timestampMs: Date.now(),
+          txType: "transfer",
+          direction,
+          nonce,
+          attempt: attempt + 1,
+          category: classifyError(err),
+          retried: retry,
+          stage: "gap",
+          message,
+        });
+        if (!retry) return false;
+        await sleep(RETRY_BASE_MS * 2 ** attempt);
+      }
+    }
+    return false;
+  };
+
+  /** Send one transfer with the next nonce; on giving up, halt the tester. */
+  const sendNext = async (scheduledMs: number | null) => {
+    const nonce = nextNonce++;
+    const recipient = recipientFor(nonce);
+    const toWallet = group.walletIndices[recipient];
+    const value = drawAmount();
+    const data = transferTo(recipient, value);
+    const startTime = Date.now();
+    let succeeded = false;
+    let nonceUsed = false;
+
+    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+      events.onSend?.(group.index, direction);
+      try {
+        const { response: tx, path, signedMs } = await submit(wallet, {
+          to: usdcAddress,
+          data,
+          gasLimit: transferGasLimit,
+          nonce,
+          ...feeOverrides,
+        });
+        const broadcastTime = Date.now();
+        nonceUsed = true;
+
+        if (immediateReceipt) {
+          record({
+            txType: "transfer",
+            submitPath: path,
+            txHash: tx.hash,
+            nonce,
+            latencyMs: broadcastTime - (scheduledMs ?? startTime),
+            gasUsed: transferGasLimit,
+            direction,
+            fromWallet,
+            toWallet,
+            amount: value,
+            timestampMs: broadcastTime,
+            scheduledMs,
+            sendStartMs: startTime,
+            signedMs,
+            broadcastMs: broadcastTime,
+            receiptMs: null,
+            blockNumber: null,
+            effectiveGasPrice: null,
+            inclusionMs: null,
+            confirmationMs: null,
+          });
+        } else {
+          const receipt = await receiptStrategy.waitForReceipt(
+            provider,
+            tx,
+            expectedConfirmMs,
+            () => stranded(nonce)
+          );
+          const receiptTime = Date.now();
+          expectedConfirmMs = Math.round(
+            expectedConfirmMs * 0.7 + (receiptTime - broadcastTime) * 0.3
+          );
+
+          if (nonce < highestReceiptNonce) pipeline.outOfOrderReceipts++;
+          highestReceiptNonce = Math.max(highestReceiptNonce, nonce);
+
+          record({
+            txType: "transfer",
+            submitPath: path,
+            txHash: receipt.hash,
+            nonce,
+            latencyMs: receiptTime - (scheduledMs ?? startTime),
+            gasUsed: receipt.gasUsed,
+            direction,
+            fromWallet,
+            toWallet,
+            amount: value,
+            timestampMs: receiptTime,
+            scheduledMs,
+            sendStartMs: startTime,
+            signedMs,
+            broadcastMs: broadcastTime,
+            receiptMs: receiptTime,
+            blockNumber: receipt.blockNumber,
+            effectiveGasPrice: receipt.gasPrice,
+            inclusionMs: null,
+            confirmationMs: null,
+          });
+        }
+        succeeded = true;
+        break;
+      } catch (err: any) {
+        const message = stranded(nonce)
+          ? `stranded behind nonce ${strandedAfter}, which was never filled`
+          : extractRpcError(err);
+        // "nonce too low" on a retry means an earlier attempt did land
+        if (message.toLowerCase().includes("nonce too low")) nonceUsed = true;
+
+        const retry = !nonceUsed && isTransientError(err) && attempt < MAX_RETRIES;
+        fail({
+          timestampMs: Date.now(),
+          txType: "transfer",
+          direction,
+          nonce,
+          attempt: attempt + 1,
+          category: classifyError(err),
+          retried: retry,
+          stage: "test",
+          message,
+        });
+        if (!retry) break;
+        await sleep(RETRY_BASE_MS * 2 ** attempt);
+      }
+    }
+
+    if (!succeeded) {
+      // Fill even after the stop signal: a nonce that was claimed but never
+      // broadcast strands every later one, and their sends would never finish
+      halted = true;
+      if (!stopSignal.stopped) erroredOut = true;
+      if (!nonceUsed) {
+        pipeline.nonceGaps++;
+        if (!(await fillGap(nonce))) {
+          strandedAfter = Math.min(strandedAfter ?? nonce, nonce);
+        }
+      }
+    }
+  };
+
+  if (scheduler) {
+    // Open loop: dispatch every slot when it comes due
+    const outstanding = new Set<Promise<void>>();
+    while (!stopSignal.stopped && !halted) {
+      if (inflight != null && outstanding.size >= inflight) {
+        await Promise.race(outstanding);
+        continue;
+      }
+      const scheduledMs = await scheduler.acquire(stopSignal);
+      // A send may have given up while we were waiting
+      if (scheduledMs == null || halted) break;
+      const send: Promise<void> = sendNext(scheduledMs).finally(() => outstanding.delete(send));
+      outstanding.add(send);
+      pipeline.peakInflight = Math.max(pipeline.peakInflight, outstanding.size);
+    }
+    await Promise.all(outstanding);
+  } else {
+    // Lanes: each keeps one send in flight, back to back
+    const runLane = async () => {
+      while (!stopSignal.stopped && !halted) await sendNext(null);
+    };
+    pipeline.peakInflight = inflight!;
+    await Promise.all(Array.from({ length: inflight! }, () => runLane()));
+  }
+
+  return {
+    pairIndex: group.index,
+    transactions,
+    failures,
+    pipeline,
+    completedCleanly: !erroredOut,
+  };
+}
@@ -8,16 +8,27 @@ import {
 // Receipt polling config (used by PollingReceiptStrategy)
 const MIN_POLL_INTERVAL_MS = 50;
 const MAX_POLL_INTERVAL_MS = 1000;
+// How often a WebSocket waiter re-checks `abandoned` when no block arrives
+const ABANDON_CHECK_MS = 1000;
+
+/** Thrown by waitForReceipt once `abandoned` returns true. */
+const RECEIPT_ABANDONED = "gave up waiting for the receipt";
 
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
 export interface ReceiptStrategy {
+  /**
+   * Resolve with the receipt once `tx` is mined. Waits indefinitely unless
+   * `abandoned` is given: it is checked while waiting, and once it returns
+   * true the wait rejects (e.g. the tx can never be mined).
+   */
   waitForReceipt(
     provider: JsonRpcProvider,
     tx: TransactionResponse,
-    expectedMs: number
+    expectedMs: number,
+    abandoned?: () => boolean
   ): Promise<TransactionReceipt>;
 }
 
@@ -29,7 +40,8 @@ export class PollingReceiptStrategy implements ReceiptStrategy {
   async waitForReceipt(
     provider: JsonRpcProvider,
     tx: TransactionResponse,
-    expectedMs: number
+    expectedMs: number,
+    abandoned?: () => boolean
   ): Promise<TransactionReceipt> {
     const initialDelay = Math.max(expectedMs * 0.8, MIN_POLL_INTERVAL_MS);
     await sleep(initialDelay);
@@ -40,6 +52,7 @@ export class PollingReceiptStrategy implements ReceiptStrategy {
     );
 
     while (true) {
+      if (abandoned?.()) throw new Error(RECEIPT_ABANDONED);
       const receipt = await provider.getTransactionReceipt(tx.hash);
       if (receipt) {
         if (receipt.status === 0) {
@@ -74,7 +87,8 @@ export class WsBlockReceiptStrategy implements ReceiptStrategy {
   async waitForReceipt(
     provider: JsonRpcProvider,
     tx: TransactionResponse,
-    _expectedMs: number
+    _expectedMs: number,
+    abandoned?: () => boolean
   ): Promise<TransactionReceipt> {
     // Optimistic: tx may already be mined by the time we check
     const immediate = await provider.getTransactionReceipt(tx.hash);
@@ -87,12 +101,16 @@ export class WsBlockReceiptStrategy implements ReceiptStrategy {
 
     // Wait for block events
     while (!this.destroyed) {
-      await new Promise<void>((resolve) => {
-        this.waiters.add(resolve);
+      let wake!: () => void;
+      const woken = new Promise<void>((resolve) => {
+        wake = resolve;
+        this.waiters.add(wake);
       });
-      // Woken by block event (or destroy) — remove ourselves before checking
-      // (the resolve callback is already removed from the set by Set semantics
-      //  since Promise resolves only once, but we clean up explicitly below)
+      // Woken by block event (or destroy); with `abandoned`, also now and
+      // then so a stalled chain can't hold the wait forever
+      await (abandoned ? Promise.race([woken, sleep(ABANDON_CHECK_MS)]) : woken);
+      this.waiters.delete(wake);
+      if (abandoned?.()) throw new Error(RECEIPT_ABANDONED);
 
       const receipt = await provider.getTransactionReceipt(tx.hash);
       if (receipt) {
@@ -131,6 +149,7 @@ export class WsBlockReceiptStrategy implements ReceiptStrategy {
  * call tx.wait() which resolves on the first getTransactionReceipt attempt.
  */
 export class ImmediateReceiptStrategy implements ReceiptStrategy {
+  // The receipt is there at once, so there is nothing to abandon
   async waitForReceipt(
     _provider: JsonRpcProvider,
     tx: TransactionResponse,
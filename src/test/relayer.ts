@@ -0,0 +1,90 @@
+import { Wallet, type JsonRpcProvider, type TransactionResponse } from "ethers";
+
+// Fallback gas limit for transferWithAuthorization when no RPC estimate is
+// available (signature recovery and the nonce write cost more than a transfer)
+export const DEFAULT_RELAY_GAS_LIMIT = 150_000n;
+
+type TxOverrides = {
+  gasLimit: bigint;
+  maxFeePerGas?: bigint | null;
+  maxPriorityFeePerGas?: bigint | null;
+  gasPrice?: bigint | null;
+};
+
+/**
+ * One relayer wallet. Submissions are broadcast one at a time in arrival
+ * order, each with the next local nonce, so a relayer never leaves a nonce
+ * gap: a failed broadcast simply hands its nonce to the next submission.
+ * Confirmations are not waited on here — many can be in flight at once.
+ */
+class Relayer {
+  private queue: Promise<unknown> = Promise.resolve();
+  private nonce: number | null = null;
+  /** Submissions queued or being broadcast. */
+  pending = 0;
+
+  constructor(
+    private wallet: Wallet,
+    private provider: JsonRpcProvider,
+    private overrides: TxOverrides
+  ) {}
+
+  submit(to: string, data: string): Promise<TransactionResponse> {
+    this.pending++;
+    const result = this.queue.then(async () => {
+      this.nonce ??= await this.provider.getTransactionCount(this.wallet.address, "pending");
+      try {
+        const tx = await this.wallet.sendTransaction({ to, data, nonce: this.nonce, ...this.overrides });
+        this.nonce++;
+        return tx;
+      } catch (err) {
+        // The node may have accepted it anyway (e.g. a timed-out response);
+        // re-read the nonce before the next broadcast
+        this.nonce = null;
+        throw err;
+      } finally {
+        this.pending--;
+      }
+    });
+    this.queue = result.catch(() => {});
+    return result;
+  }
+}
+
+/**
+ * Relayer wallets shared by every tester in relay mode (--relay). Each
+ * submission goes to the relayer with the shortest queue.
+ */
+export class RelayerPool {
+  private relayers: Relayer[];
+  private cursor = 0;
+
+  constructor(
+    wallets: { privateKey: string }[],
+    provider: JsonRpcProvider,
+    private overrides: TxOverrides
+  ) {
+    this.relayers = wallets.map(
+      (w) => new Relayer(new Wallet(w.privateKey, provider), provider, overrides)
+    );
+  }
+
+  get size(): number {
+    return this.relayers.length;
+  }
+
+  get gasLimit(): bigint {
+    return this.overrides.gasLimit;
+  }
+
+  submit(to: string, data: string): Promise<TransactionResponse> {
+    // Ties rotate, so a lightly loaded pool still spreads over every relayer
+    const start = this.cursor++ % this.relayers.length;
+    let relayer = this.relayers[start];
+    for (let k = 1; k < this.relayers.length; k++) {
+      const candidate = this.relayers[(start + k) % this.relayers.length];
+      if (candidate.pending < relayer.pending) relayer = candidate;
+    }
+    return relayer.submit(to, data);
+  }
+}
@@ -0,0 +1,162 @@
+import { readFileSync, writeFileSync } from "fs";
+import type { TesterResult } from "./tester.js";
+import type { TestSummary } from "./stats.js";
+import type { ProfileSpec, Waypoint } from "./traffic-curve.js";
+import type { CapacitySearch } from "./find-max.js";
+import type { SubmitMode } from "./submit.js";
+import type { BurstOptions, BurstSummary } from "./burst.js";
+import type { Topology } from "../wallet/topology.js";
+import type { TokenInfo } from "../utils/usdc.js";
+import type { GasLimits } from "../cli.js";
+import type { RpcBatchConfig, RpcEndpoint } from "../config/networks.js";
+
+/**
+ * Version of the JSON results document written by --output.
+ * Bump whenever a field is renamed or removed so archived runs stay parseable.
+ */
+export const RESULTS_FORMAT_VERSION = 1;
+
+export type RunConfig = {
+  network: {
+    name: string;
+    chainId: number;
+    rpcUrl: string;
+    /** Every endpoint testers were spread over (repeated --rpc); absent means rpcUrl alone. */
+    rpcEndpoints?: RpcEndpoint[];
+    usdcAddress: string;
+  };
+  parallel: number;
+  durationSec: number;
+  /** "mixed": workers of a distributed run ended up with different modes. */
+  receiptMode: "immediate" | "WebSocket" | "polling" | "mixed";
+  trafficCurve: Waypoint[] | null;
+  /** Where trafficCurve came from: --curve-seed, --curve-file or --traffic-profile. */
+  curveSeed?: number | null;
+  curveFile?: string | null;
+  curveProfile?: ProfileSpec | null;
+  gasLimits: GasLimits | null;
+  /** In-flight txs per sender (--inflight); null for ping-pong runs. */
+  inflight?: number | null;
+  /** Wallet topology (--topology) and wallets per tester; absent means pair. */
+  topology?: Topology;
+  groupSize?: number;
+  /** Token transferred and the --amount spec; absent means 0.01 USDC. */
+  token?: TokenInfo;
+  amountSpec?: string;
+  /** Relayer wallets in relay mode (--relay); null or absent otherwise. */
+  relayers?: number | null;
+  /** Mixed workload (--mix), as given; null or absent means transfers only. */
+  mix?: string | null;
+  /** Broadcast path (--submit); absent means ethers. */
+  submit?: SubmitMode;
+  /** Burst mode (--burst); null or absent for timed runs. */
+  burst?: BurstOptions | null;
+  /** JSON-RPC batching (--batch-size); null or absent means ethers' defaults. */
+  rpcBatch?: RpcBatchConfig | null;
+  /** Distributed runs (coordinate): worker processes; null or absent for one process. */
+  workers?: number | null;
+};
+
+export type ResultsDocument = {
+  version: number;
+  generatedAt: string;
+  config: RunConfig;
+  summary: TestSummary;
+  testers: TesterResult[];
+  /** --find-max runs: every step; summary/testers are the saturation step. */
+  capacitySearch?: CapacitySearch;
+  /** --burst runs: submission and drain timings. */
+  burst?: BurstSummary;
+};
+
+/**
+ * Serialize bigints as decimal strings — JSON numbers lose precision above
+ * 2^53, and gas totals on long runs easily exceed that.
+ */
+export function bigintReplacer(_key: string, value: unknown): unknown {
+  return typeof value === "bigint" ? value.toString() : value;
+}
+
+/** Keys whose values were written by bigintReplacer and must be revived on load. */
+const BIGINT_FIELDS = new Set([
+  "gasUsed",
+  "totalGasUsed",
+  "effectiveGasPrice",
+  "ethTransfer",
+  "erc20Transfer",
+  "authorizedTransfer",
+  "approve",
+  "transferFrom",
+  "amount",
+  "totalAmount",
+  "avgAmount",
+]);
+
+export function bigintReviver(key: string, value: unknown): unknown {
+  return BIGINT_FIELDS.has(key) && typeof value === "string"
+    ? BigInt(value)
+    : value;
+}
+
+/**
+ * An RPC URL cut down to its origin. Providers put API keys in the path, the
+ * query or the userinfo, and results files are meant to be shared.
+ */
+export function redactRpcUrl(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return "(invalid URL)";
+  }
+}
+
+/** Builds the --output document; RPC URLs in it are redacted to their origin. */
+export function buildResultsDocument(
+  config: RunConfig,
+  summary: TestSummary,
+  testers: TesterResult[]
+): ResultsDocument {
+  const { network } = config;
+  return {
+    version: RESULTS_FORMAT_VERSION,
+    generatedAt: new Date().toISOString(),
+    config: {
+      ...config,
+      network: {
+        ...network,
+        rpcUrl: redactRpcUrl(network.rpcUrl),
+        rpcEndpoints: network.rpcEndpoints?.map((e) => ({ ...e, url: redactRpcUrl(e.url) })),
+      },
+    },
+    summary: summary.byEndpoint
+      ? { ...summary, byEndpoint: summary.byEndpoint.map((e) => ({ ...e, endpoint: redactRpcUrl(e.endpoint) })) }
+      : summary,
+    testers: testers.map((r) => ({
+      ...r,
+      transactions: r.transactions.map((tx) => ({ ...tx, endpoint: redactRpcUrl(tx.endpoint) })),
+      failures: r.failures.map((f) => ({ ...f, endpoint: redactRpcUrl(f.endpoint) })),
+    })),
+  };
+}
+
+export function writeResults(path: string, doc: ResultsDocument): void {
+  writeFileSync(path, JSON.stringify(doc, bigintReplacer, 2) + "\n");
+}
+
+export function loadResults(path: string): ResultsDocument {
+  let doc: ResultsDocument;
+  try {
+    doc = JSON.parse(readFileSync(path, "utf8"), bigintReviver);
+  } catch (err: any) {
+    throw new Error(`Could not read results file ${path}: ${err.message}`);
+  }
+  if (typeof doc.version !== "number" || !doc.summary) {
+    throw new Error(`${path} is not a usdc-speedtest results file`);
+  }
+  if (doc.version > RESULTS_FORMAT_VERSION) {
+    throw new Error(
+      `${path} uses results format v${doc.version}, but this version only understands up to v${RESULTS_FORMAT_VERSION}`
+    );
+  }
+  return doc;
+}
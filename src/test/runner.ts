@@ -1,72 +1,289 @@
-import { type JsonRpcProvider, formatEther } from "ethers";
+import {
+  formatEther,
+  type HDNodeWallet,
+  type JsonRpcProvider,
+  type TypedDataDomain,
+} from "ethers";
 import ora from "ora";
-import { runTester, type TesterResult } from "./tester.js";
+import {
+  runTester,
+  combineEvents,
+  type TesterContext,
+  type TesterEvents,
+  type TesterResult,
+} from "./tester.js";
 import {
   createReceiptStrategy,
   WsBlockReceiptStrategy,
   ImmediateReceiptStrategy,
+  type ReceiptStrategy,
 } from "./receipt.js";
-import { computeStats, printSummary } from "./stats.js";
-import { generateCurve, type TrafficCurve } from "./traffic-curve.js";
-import { getUsdcContract, USDC_CENT, formatUsdc } from "../utils/usdc.js";
-import { pMap } from "../utils/concurrency.js";
+import { runPipelinedTester } from "./pipelined-tester.js";
+import { computeStats, printSummary, type TestSummary } from "./stats.js";
+import {
+  createCurve,
+  generateCurve,
+  generateProfile,
+  type ProfileSpec,
+  type TrafficCurve,
+  type Waypoint,
+} from "./traffic-curve.js";
+import { buildResultsDocument, writeResults, type RunConfig } from "./results.js";
+import { TxLogWriter } from "./tx-log.js";
+import { MetricsRegistry, startMetricsServer } from "./metrics.js";
+import { Dashboard } from "./dashboard.js";
+import { RateScheduler } from "./scheduler.js";
+import { MeshRegistry } from "./mesh.js";
+import { DEFAULT_RELAY_GAS_LIMIT, RelayerPool } from "./relayer.js";
+import { formatMix, type TxMix } from "./mix.js";
+import { createSubmitter, type Submit, type SubmitMode } from "./submit.js";
+import { assignEndpoints, createProvider, endpointsOf } from "./endpoints.js";
+import {
+  analyzeBlocks,
+  annotatePhases,
+  collectBlockNumbers,
+  fetchBlocks,
+  type BlockAnalysis,
+} from "./blocks.js";
+import { formatToken, getUsdcContract, type TokenInfo } from "../utils/usdc.js";
+import { formatAmountSpec, maxAmount, type AmountSpec } from "../utils/amount.js";
+import { balanceConcurrency, pMap } from "../utils/concurrency.js";
 import { confirm } from "../utils/prompt.js";
 import * as log from "../utils/logger.js";
-import type { WalletPair } from "../wallet/derive.js";
+import type { WalletGroup } from "../wallet/derive.js";
+import { walletPlan, type TopologyOptions } from "../wallet/topology.js";
 import type { NetworkConfig } from "../config/networks.js";
 import type { GasLimits } from "../cli.js";
 
+export type RunOptions = {
+  /** The ERC-20 being transferred (--token, USDC by default). */
+  token: TokenInfo;
+  /** Transfer amount distribution (--amount). */
+  amount: AmountSpec;
+  trafficShape?: boolean;
+  /** Seed for the random traffic curve (a random one is picked if omitted). */
+  curveSeed?: number;
+  /** Explicit traffic curve loaded from --curve-file (replaces the random one). */
+  curveFile?: { path: string; waypoints: Waypoint[] };
+  /** Named load shape (--traffic-profile) instead of a random curve. */
+  trafficProfile?: ProfileSpec;
+  gasLimits?: GasLimits;
+  /** Write a JSON results document to this path after the run. */
+  outputPath?: string;
+  /** Stream one CSV row per transaction to this path while the test runs. */
+  txLogPath?: string;
+  /** Time series window size in seconds (default 10). */
+  windowSec?: number;
+  /** Latency percentiles to report in the summary. */
+  percentiles?: number[];
+  /** Serve Prometheus metrics on this port while the test runs. */
+  metricsPort?: number;
+  /** Full-screen live dashboard instead of the spinner (TTY only). */
+  dashboard?: boolean;
+  /**
+   * Open-loop mode: issue transfers at this aggregate rate (tx/s). With a
+   * traffic curve, the rate at a 100% target (default: one tx per block per
+   * in-flight slot across all testers).
+   */
+  rate?: number;
+  /** Pipelined mode: self-transfers kept in flight per sender wallet. */
+  inflight?: number;
+  /** Paced runs: what each first wallet sends open-loop (see TopologyOptions). */
+  paced?: TopologyOptions["paced"];
+  /**
+   * Relay mode (--relay): holders sign EIP-3009 authorizations for the token's
+   * EIP-712 domain and these wallets submit them.
+   */
+  relay?: { wallets: HDNodeWallet[]; domain: TypedDataDomain };
+  /** Mixed workload (--mix): weighted transaction types instead of transfers only. */
+  mix?: TxMix;
+  /** How testers broadcast (--submit, default ethers). */
+  submit?: SubmitMode;
+};
+
+/** Outcome of one timed run of all testers. */
+export type PhaseResult = {
+  stats: TestSummary;
+  results: TesterResult[];
+  curve?: TrafficCurve;
+  /** True if Ctrl+C ended the phase before its timer. */
+  interrupted: boolean;
+  /** --tx-log could not be written (the run itself went on). */
+  txLogError?: Error;
+};
+
 export async function runTest(
-  pairs: WalletPair[],
+  groups: WalletGroup[],
   provider: JsonRpcProvider,
   network: NetworkConfig,
   durationSec: number,
-  trafficShape?: boolean,
-  gasLimits?: GasLimits
+  options: RunOptions
 ): Promise<void> {
+  const { trafficShape, gasLimits, outputPath, txLogPath, inflight } = options;
+
+  if (!(await prepareTest(groups, provider, network, durationSec, options))) return;
+
+  const receiptStrategy = await createReceiptStrategy(
+    network.wsUrl,
+    network.chainId,
+    network.immediateReceipt
+  );
+  const mode = receiptModeName(receiptStrategy);
+
+  let phase: PhaseResult;
+  try {
+    phase = await runPhase(groups, provider, network, durationSec, receiptStrategy, options);
+  } finally {
+    // Tear down WebSocket connection if active
+    if (receiptStrategy instanceof WsBlockReceiptStrategy) {
+      await receiptStrategy.destroy();
+    }
+  }
+  const { stats, results, curve } = phase;
+
+  printSummary(stats, network.name, groups.length, results, trafficShape);
+
+  if (outputPath) {
+    const doc = buildResultsDocument(
+      {
+        network: {
+          name: network.name,
+          chainId: network.chainId,
+          rpcUrl: network.rpcUrl,
+          rpcEndpoints: network.rpcEndpoints,
+          usdcAddress: network.usdcAddress,
+        },
+        parallel: groups.length,
+        durationSec,
+        receiptMode: mode,
+        trafficCurve: curve?.waypoints ?? null,
+        curveSeed: curve?.seed ?? null,
+        curveFile: curve?.file ?? null,
+        curveProfile: curve?.profile ?? null,
+        gasLimits: gasLimits ?? null,
+        inflight: inflight ?? null,
+        topology: groups[0].topology,
+        groupSize: groups[0].wallets.length,
+        token: options.token,
+        amountSpec: formatAmountSpec(options.amount, options.token.decimals),
+        relayers: options.relay?.wallets.length ?? null,
+        mix: options.mix ? formatMix(options.mix) : null,
+        submit: options.submit ?? "ethers",
+        rpcBatch: network.rpcBatch ?? null,
+      },
+      stats,
+      results
+    );
+    writeResults(outputPath, doc);
+    log.success(`Results written to ${outputPath}`);
+  }
+  if (txLogPath) {
+    if (phase.txLogError) log.error(phase.txLogError.message);
+    else log.success(`Transaction log written to ${txLogPath}`);
+  }
+}
+
+export function receiptModeName(strategy: ReceiptStrategy): RunConfig["receiptMode"] {
+  return strategy instanceof ImmediateReceiptStrategy
+    ? "immediate"
+    : strategy instanceof WsBlockReceiptStrategy
+      ? "WebSocket"
+      : "polling";
+}
+
+/**
+ * Ask for confirmation, then verify every wallet the testers will send from
+ * is funded. Resolves to false if the user cancelled; throws if the pre-flight
+ * check fails.
+ */
+export async function prepareTest(
+  groups: WalletGroup[],
+  provider: JsonRpcProvider,
+  network: NetworkConfig,
+  durationSec: number,
+  options: Pick<RunOptions, "token" | "amount" | "inflight" | "paced" | "relay"> & { burst?: number }
+): Promise<boolean> {
+  const { token, inflight, paced, relay, burst } = options;
   log.header(`Ready to Start — ${network.name}`);
-  log.info(`${pairs.length} parallel testers for ${durationSec} seconds`);
+  const { topology } = groups[0];
+  const groupSize = groups[0].wallets.length;
+  if (burst != null) {
+    log.info(`Burst: ${burst} pre-signed self-transfers from each of ${groups.length * groupSize} wallets`);
+  } else {
+    log.info(`${groups.length} parallel testers for ${durationSec} seconds`);
+  }
+  if (topology !== "pair") {
+    log.info(`Topology: ${topology}, ${groupSize} wallets per tester`);
+  }
+  if (inflight != null) {
+    log.info(
+      topology === "fanout"
+        ? `Pipelined: ${inflight} in-flight payouts per hot wallet`
+        : `Pipelined: ${inflight} in-flight self-transfers per sender (receivers unused)`
+    );
+  }
+  if (relay) {
+    log.info(`Relay: ${relay.wallets.length} relayer(s) submit signed EIP-3009 authorizations`);
+  }
   log.warn("Running the test will spend gas on each transaction.");
   console.log();
 
   const ok = await confirm("Start the test?");
   if (!ok) {
     log.warn("Test cancelled.");
-    return;
+    return false;
   }
-
-  // Pre-flight: verify sender wallets have USDC and all wallets have gas
+  // Pre-flight: verify the wallets that start with the token can afford the
+  // largest transfer, and every wallet the topology sends from has gas
   const preflight = ora("Pre-flight check: verifying wallet balances...").start();
   const usdc = getUsdcContract(network.usdcAddress, provider);
-  const gasLabel = network.gasTokenAddress ? "gas token" : "ETH";
+  const gasLabel = gasLabelFor(network);
+  const minBalance = maxAmount(options.amount);
   const problems: string[] = [];
 
+  const topologyOptions = {
+    topology,
+    groupSize,
+    inflight,
+    paced,
+    relay: relay && { testers: groups.length, relayers: relay.wallets.length },
+    burst,
+  };
+  const walletCount = groups.length * groupSize;
+  const members = [
+    ...groups.flatMap((group) =>
+      group.wallets.map((wallet, k) => ({
+        label: `Tester #${group.index}`,
+        wallet,
+        plan: walletPlan(topologyOptions, group.walletIndices[k]),
+      }))
+    ),
+    ...(relay?.wallets ?? []).map((wallet, k) => ({
+      label: `Relayer #${k}`,
+      wallet,
+      plan: walletPlan(topologyOptions, walletCount + k),
+    })),
+  ];
   await pMap(
-    pairs,
-    async (pair) => {
-      const [senderUsdc, senderEth, receiverEth] = await Promise.all([
-        usdc.balanceOf(pair.sender.address) as Promise<bigint>,
-        provider.getBalance(pair.sender.address),
-        provider.getBalance(pair.receiver.address),
+    members,
+    async ({ label, wallet, plan }) => {
+      const [usdcBalance, ethBalance] = await Promise.all([
+        plan.holdsUsdc ? (usdc.balanceOf(wallet.address) as Promise<bigint>) : null,
+        (plan.sendShare > 0 || plan.testTxs) && plan.paysGas ? provider.getBalance(wallet.address) : null,
       ]);
 
-      if (senderUsdc < USDC_CENT) {
+      if (usdcBalance != null && usdcBalance < minBalance) {
         problems.push(
-          `Tester #${pair.index} sender ${pair.sender.address} has ${formatUsdc(senderUsdc)} USDC (need ${formatUsdc(USDC_CENT)})`
+          `${label} ${plan.role} ${wallet.address} has ${formatToken(usdcBalance, token)} (need ${formatToken(minBalance, token)})`
         );
       }
-      if (senderEth === 0n) {
+      if (ethBalance === 0n) {
         problems.push(
-          `Tester #${pair.index} sender ${pair.sender.address} has 0 ${gasLabel} for gas`
-        );
-      }
-      if (receiverEth === 0n) {
-        problems.push(
-          `Tester #${pair.index} receiver ${pair.receiver.address} has 0 ${gasLabel} for gas`
+          `${label} ${plan.role} ${wallet.address} has 0 ${gasLabel} for gas`
         );
       }
     },
-    10
+    balanceConcurrency(network)
   );
 
   if (problems.length > 0) {
@@ -79,36 +296,152 @@ export async function runTest(
     throw new Error("Pre-flight check failed: wallets not ready");
   }
   preflight.succeed("Pre-flight check passed — all wallets ready");
+  return true;
+}
 
-  // Set up receipt waiting strategy (WebSocket or polling)
-  const receiptStrategy = await createReceiptStrategy(
-    network.wsUrl,
-    network.chainId,
-    network.immediateReceipt
-  );
-  const mode =
-    receiptStrategy instanceof ImmediateReceiptStrategy
-      ? "immediate"
-      : receiptStrategy instanceof WsBlockReceiptStrategy
-        ? "WebSocket"
-        : "polling";
+function fmtRate(rate: number): string {
+  return rate.toLocaleString("en-US", { maximumFractionDigits: 2 });
+}
+
+function gasLabelFor(network: NetworkConfig): string {
+  return network.gasTokenAddress ? "gas token" : "ETH";
+}
+
+/** The curve a shaped run follows: from --curve-file, a named profile, or random. */
+export function createTrafficCurve(
+  options: Pick<RunOptions, "curveSeed" | "curveFile" | "trafficProfile">,
+  durationSec: number
+): TrafficCurve {
+  const { curveSeed, curveFile, trafficProfile } = options;
+  return curveFile
+    ? createCurve(curveFile.waypoints, { file: curveFile.path })
+    : trafficProfile
+      ? generateProfile(trafficProfile, durationSec * 1000)
+      : generateCurve(durationSec * 1000, curveSeed);
+}
+
+/**
+ * Paced runs: sends per block time each tester's first wallet makes when all
+ * of them together send `rate` tx/s.
+ */
+export function pacedSendShare(testers: number, network: NetworkConfig, rate: number): number {
+  return (rate / testers) * (network.estimatedBlockTimeMs / 1000);
+}
+
+/** Aggregate rate at a 100% curve target: --rate, or one tx per block per in-flight slot. */
+export function shapedPeakRate(
+  testers: number,
+  network: NetworkConfig,
+  options: Pick<RunOptions, "rate" | "inflight">
+): number {
+  return options.rate ?? (testers * (options.inflight ?? 1) * 1000) / network.estimatedBlockTimeMs;
+}
+
+/**
+ * Run every tester for `durationSec` (or until Ctrl+C) and compute stats.
+ * Prints progress but not the summary, so callers can run several phases.
+ */
+export async function runPhase(
+  groups: WalletGroup[],
+  provider: JsonRpcProvider,
+  network: NetworkConfig,
+  durationSec: number,
+  receiptStrategy: ReceiptStrategy,
+  options: RunOptions
+): Promise<PhaseResult> {
+  const {
+    token,
+    amount,
+    trafficShape,
+    txLogPath,
+    windowSec = 10,
+    percentiles,
+    metricsPort,
+    rate,
+    relay,
+    mix,
+    submit = "ethers",
+  } = options;
+  // The dashboard redraws the whole screen; fall back to the spinner when piped
+  const useDashboard = !!options.dashboard && !!process.stdout.isTTY;
+  const mode = receiptModeName(receiptStrategy);
+  const gasLabel = gasLabelFor(network);
 
   // Traffic shaping curve
   let curve: TrafficCurve | undefined;
   if (trafficShape) {
-    curve = generateCurve(durationSec * 1000);
+    curve = createTrafficCurve(options, durationSec);
     log.info(curve.describe());
     console.log();
   }
 
+  const txLog = txLogPath ? new TxLogWriter(txLogPath) : undefined;
+
+  // Shaped runs are paced by the scheduler too: the curve scales a peak rate
+  let scheduler: RateScheduler | undefined;
+  if (curve) {
+    const peakRate = shapedPeakRate(groups.length, network, options);
+    scheduler = new RateScheduler(peakRate, (ms) => curve!.targetAt(ms));
+    log.info(`Traffic shaping: 100% = ${fmtRate(peakRate)} tx/s across ${groups.length} testers`);
+    console.log();
+  } else if (rate != null) {
+    scheduler = new RateScheduler(rate);
+    log.info(`Open-loop mode: ${rate} tx/s across ${groups.length} testers`);
+    console.log();
+  }
+
+  let metrics: MetricsRegistry | undefined;
+  let metricsServer: Awaited<ReturnType<typeof startMetricsServer>> | undefined;
+  if (metricsPort != null) {
+    metrics = new MetricsRegistry(curve && (() => curve!.currentTarget));
+    metricsServer = await startMetricsServer(metricsPort, metrics);
+    log.info(`Prometheus metrics: http://localhost:${metricsPort}/metrics`);
+    console.log();
+  }
+
+  // Live counters for the progress spinner
+  const progress = { confirmed: 0, failed: 0 };
+  const progressEvents: TesterEvents = {
+    onTransaction: () => {
+      progress.confirmed++;
+    },
+    onFailure: (_, f) => {
+      if (f.stage === "test" && !f.retried) progress.failed++;
+    },
+  };
+
+  let dashboard: Dashboard | undefined;
+  if (useDashboard) {
+    const feeData = await provider.getFeeData();
+    dashboard = new Dashboard({
+      networkName: network.name,
+      mode,
+      testerCount: groups.length,
+      durationSec,
+      latencyWindowSec: windowSec,
+      gasLabel,
+      fallbackGasPrice: feeData.gasPrice ?? feeData.maxFeePerGas ?? 0n,
+      trafficCurve: curve,
+    });
+  }
+
+  const events = combineEvents(
+    progressEvents,
+    txLog && { onTransaction: (pairIndex, tx) => txLog.write(pairIndex, tx) },
+    metrics?.events,
+    dashboard?.events
+  );
+
   const stopSignal = { stopped: false };
   const durationMs = durationSec * 1000;
   let testEndTime = 0;
+  let interrupted = false;
 
   // Set up Ctrl+C handler
   const sigintHandler = () => {
     if (!stopSignal.stopped) {
       stopSignal.stopped = true;
+      interrupted = true;
       testEndTime = Date.now();
     }
   };
@@ -122,9 +455,12 @@ export async function runTest(
 
   const spinner = ora(
     `Running test (${mode})... (${durationSec}s, Ctrl+C to stop early)`
-  ).start();
+  );
 
   const startTime = Date.now();
+  scheduler?.start(startTime);
+  if (dashboard) dashboard.start(startTime);
+  else spinner.start();
   const doneCount = { value: 0 };
 
   // Curve tick interval (updates currentTarget every 100ms)
@@ -136,49 +472,44 @@ export async function runTest(
 
   // Progress update interval
   const progressInterval = setInterval(() => {
-    if (stopSignal.stopped) {
-      const remaining = pairs.length - doneCount.value;
-      spinner.text = `Cleaning up... ${remaining} of ${pairs.length} testers still finishing`;
+    if (dashboard) {
+      if (stopSignal.stopped) dashboard.setStopping(groups.length - doneCount.value);
+      dashboard.render();
+    } else if (stopSignal.stopped) {
+      const remaining = groups.length - doneCount.value;
+      spinner.text = `Cleaning up... ${remaining} of ${groups.length} testers still finishing`;
     } else {
       const elapsed = Math.min(
         Math.floor((Date.now() - startTime) / 1000),
         durationSec
       );
-      const targetSuffix = curve
-        ? ` | target: ${Math.round(curve.currentTarget * 100)}%`
-        : "";
-      spinner.text = `Running test (${mode})... ${elapsed}s / ${durationSec}s${targetSuffix} (Ctrl+C to stop early)`;
+      const targetSuffix =
+        curve && scheduler
+          ? ` | target: ${fmtRate(scheduler.rateAt(Date.now() - startTime))} tx/s (${Math.round(curve.currentTarget * 100)}%)`
+          : "";
+      const failedSuffix = progress.failed > 0 ? `, ${progress.failed} failed` : "";
+      const backlogSuffix = scheduler ? ` | backlog: ${scheduler.backlog()}` : "";
+      spinner.text = `Running test (${mode})... ${elapsed}s / ${durationSec}s | ${progress.confirmed} txs${failedSuffix}${backlogSuffix}${targetSuffix} (Ctrl+C to stop early)`;
     }
   }, 1000);
 
-  // Spawn all testers in parallel
-  const results: TesterResult[] = await Promise.all(
-    pairs.map(async (pair) => {
-      const result = await runTester(
-        pair,
-        provider,
-        network.usdcAddress,
-        network.estimatedBlockTimeMs,
-        stopSignal,
-        receiptStrategy,
-        network.immediateReceipt,
-        network.rpcUrl,
-        curve,
-        gasLimits?.erc20Transfer
-      );
-      doneCount.value++;
-      return result;
-    })
-  );
+  const results = await runTesters(groups, provider, network, receiptStrategy, options, {
+    stopSignal,
+    scheduler,
+    events,
+    onTesterDone: () => doneCount.value++,
+  });
 
   clearTimeout(timer);
   clearInterval(progressInterval);
   if (curveInterval) clearInterval(curveInterval);
   process.removeListener("SIGINT", sigintHandler);
-
-  // Tear down WebSocket connection if active
-  if (receiptStrategy instanceof WsBlockReceiptStrategy) {
-    await receiptStrategy.destroy();
+  const txLogError = await txLog?.close().then(
+    () => undefined,
+    (err: Error) => err
+  );
+  if (metricsServer) {
+    await new Promise<void>((resolve) => metricsServer!.close(() => resolve()));
   }
 
   // Use the time the stop signal fired; if it never fired (all testers finished
@@ -186,8 +517,142 @@ export async function runTest(
   if (!testEndTime) testEndTime = Date.now();
   const actualDurationMs = testEndTime - startTime;
   spinner.stop();
+  dashboard?.stop();
+
+  // Fetch the blocks our txs landed in: used to split latency into phases
+  // and to report how full those blocks were
+  const blockNumbers = collectBlockNumbers(results);
+  let blockAnalysis: BlockAnalysis | null = null;
+  if (blockNumbers.length > 0) {
+    const blockSpinner = ora("Fetching blocks for analysis...").start();
+    const blocks = await fetchBlocks(provider, blockNumbers);
+    annotatePhases(results, blocks);
+    blockAnalysis = analyzeBlocks(results, blocks);
+    blockSpinner.stop();
+  }
+
+  const stats = computeStats(results, actualDurationMs, {
+    token,
+    amount,
+    relayers: relay?.wallets.length,
+    mix,
+    submit,
+    endpoints: network.rpcEndpoints,
+    startTimeMs: startTime,
+    windowMs: windowSec * 1000,
+    percentiles,
+    blocks: blockAnalysis,
+    targetRateAt: scheduler && ((ms: number) => scheduler!.rateAt(ms)),
+    openLoop: scheduler && {
+      targetRate: scheduler.ratePerSec,
+      shaped: !!curve,
+      offeredSlots: scheduler.dueBy(testEndTime),
+      peakBacklog: scheduler.peakBacklog,
+      finalBacklog: scheduler.backlog(testEndTime),
+    },
+  });
+
+  return { stats, results, curve, interrupted, txLogError };
+}
+
+/** How a set of testers is driven: stopped, paced and observed. */
+export type TesterRun = {
+  stopSignal: { stopped: boolean };
+  /** Open-loop or shaped runs: hands out send slots. */
+  scheduler?: RateScheduler;
+  events?: TesterEvents;
+  /** Called as each tester finishes. */
+  onTesterDone?: () => void;
+};
+
+/**
+ * Start a tester per group and resolve with their results once every one has
+ * stopped. Sets up what the testers share: the mesh registry, the relayer
+ * pool, and a provider and submitter per endpoint.
+ */
+export async function runTesters(
+  groups: WalletGroup[],
+  provider: JsonRpcProvider,
+  network: NetworkConfig,
+  receiptStrategy: ReceiptStrategy,
+  options: Pick<RunOptions, "amount" | "gasLimits" | "inflight" | "relay" | "mix" | "submit">,
+  run: TesterRun
+): Promise<TesterResult[]> {
+  const { amount, gasLimits, inflight, relay, mix, submit = "ethers" } = options;
+  const { stopSignal, scheduler, events, onTesterDone } = run;
+
+  // Mesh: one registry shared by all testers tracks which wallets hold USDC
+  const mesh =
+    groups[0].topology === "mesh"
+      ? new MeshRegistry(
+          groups.flatMap((g) => g.wallets),
+          groups.map((g) => g.walletIndices[0])
+        )
+      : undefined;
+
+  // Relay mode: one pool of relayers submits for every tester
+  let relayContext: TesterContext["relay"];
+  if (relay) {
+    const feeData = await provider.getFeeData();
+    const pool = new RelayerPool(relay.wallets, provider, {
+      gasLimit: gasLimits?.authorizedTransfer ?? DEFAULT_RELAY_GAS_LIMIT,
+      ...(feeData.maxFeePerGas
+        ? { maxFeePerGas: feeData.maxFeePerGas, maxPriorityFeePerGas: feeData.maxPriorityFeePerGas }
+        : { gasPrice: feeData.gasPrice }),
+    });
+    relayContext = { pool, domain: relay.domain };
+  }
 
-  // Compute and display stats
-  const stats = computeStats(results, actualDurationMs);
-  printSummary(stats, network.name, pairs.length, results, trafficShape);
+  // Several endpoints (--rpc, repeated): testers are spread over them by
+  // weight, each sending and polling through its own provider
+  const endpoints = endpointsOf(network);
+  const connections = new Map<string, { provider: JsonRpcProvider; submit: Submit }>();
+  for (const { url } of endpoints) {
+    if (connections.has(url)) continue;
+    const endpointProvider = url === network.rpcUrl ? provider : createProvider(network, url);
+    connections.set(url, {
+      provider: endpointProvider,
+      submit: await createSubmitter(submit, endpointProvider, url),
+    });
+  }
+  const testerEndpoints = assignEndpoints(endpoints, groups.length);
+
+  // Spawn all testers in parallel
+  const results = await Promise.all(
+    groups.map(async (group, g) => {
+      const { url } = testerEndpoints[g];
+      const connection = connections.get(url)!;
+      const ctx = {
+        provider: connection.provider,
+        usdcAddress: network.usdcAddress,
+        amount,
+        estimatedBlockTimeMs: network.estimatedBlockTimeMs,
+        stopSignal,
+        receiptStrategy,
+        immediateReceipt: network.immediateReceipt,
+        rpcUrl: url,
+        submit: connection.submit,
+        erc20GasLimit: gasLimits?.erc20Transfer,
+        mix,
+        approveGasLimit: gasLimits?.approve,
+        transferFromGasLimit: gasLimits?.transferFrom,
+        nativeGasLimit: gasLimits?.ethTransfer,
+        scheduler,
+        mesh,
+        relay: relayContext,
+        events,
+      };
+      // Paced runs dispatch every slot open-loop, which takes pipelined nonces
+      const result =
+        inflight != null || scheduler
+          ? await runPipelinedTester(group, inflight, ctx)
+          : await runTester(group, ctx);
+      onTesterDone?.();
+      return result;
+    })
+  );
+  for (const connection of connections.values()) {
+    if (connection.provider !== provider) connection.provider.destroy();
+  }
+  return results;
 }
@@ -0,0 +1,124 @@
+// Longest a waiting tester sleeps before re-checking the stop signal
+const MAX_SLEEP_MS = 100;
+
+// Integration step for time-varying rates; the curve is piecewise linear and
+// this is far finer than any waypoint spacing
+const STEP_MS = 50;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Running integral of the rate: slots offered from the start up to `ms`. */
+type Cursor = { ms: number; accrued: number; prevMs: number; prevAccrued: number };
+
+/**
+ * Open-loop scheduler: issues send slots at a fixed aggregate rate, no matter
+ * how quickly earlier transactions confirm.
+ *
+ * With a `shape` (0–1 multiplier over elapsed time, e.g. a traffic curve's
+ * target), the rate follows ratePerSec × shape(t) instead. Slot k is due once
+ * the integral of the rate reaches k — for a constant rate that's simply
+ * start + k / rate. Each tester claims the next slot, waits until it is due
+ * and dispatches it without waiting for its earlier sends (see
+ * runPipelinedTester). Slots that come due while testers are at their
+ * --inflight cap pile up as backlog and are served late.
+ */
+export class RateScheduler {
+  private startMs = 0;
+  private claimed = 0;
+  private maxBacklog = 0;
+  // Separate cursors: due times are looked up ahead of now, backlog at now
+  private dueCursor: Cursor = { ms: 0, accrued: 0, prevMs: 0, prevAccrued: 0 };
+  private nowCursor: Cursor = { ms: 0, accrued: 0, prevMs: 0, prevAccrued: 0 };
+  // Due times (elapsed ms) of slots the due cursor has passed but that
+  // haven't been handed out yet
+  private dueTimes = new Map<number, number>();
+
+  constructor(
+    readonly ratePerSec: number,
+    private shape?: (elapsedMs: number) => number
+  ) {
+    if (!(ratePerSec > 0)) {
+      throw new Error(`Rate must be a positive number (got ${ratePerSec})`);
+    }
+  }
+
+  start(startMs: number): void {
+    this.startMs = startMs;
+  }
+
+  /** Target rate (tx/s) at a point in the test. */
+  rateAt(elapsedMs: number): number {
+    return this.ratePerSec * (this.shape ? Math.max(0, this.shape(elapsedMs)) : 1);
+  }
+
+  private step(c: Cursor, toMs: number): void {
+    c.prevMs = c.ms;
+    c.prevAccrued = c.accrued;
+    c.accrued += ((this.rateAt(c.ms) + this.rateAt(toMs)) / 2) * ((toMs - c.ms) / 1000);
+    c.ms = toMs;
+  }
+
+  /** Slots that have come due by `nowMs`. */
+  dueBy(nowMs: number): number {
+    const elapsed = nowMs - this.startMs;
+    if (elapsed < 0) return 0;
+    const c = this.nowCursor;
+    while (c.ms < elapsed) this.step(c, Math.min(elapsed, c.ms + STEP_MS));
+    // Slot 0 is due at the start
+    return Math.floor(c.accrued) + 1;
+  }
+
+  /** Due slots that no tester has picked up yet. */
+  backlog(nowMs = Date.now()): number {
+    return Math.max(0, this.dueBy(nowMs) - this.claimed);
+  }
+
+  get peakBacklog(): number {
+    return this.maxBacklog;
+  }
+
+  /**
+   * Elapsed time at which `slot` comes due, or null if that is later than
+   * `horizonMs` (the rate may be zero for a while, so don't look too far).
+   */
+  private dueAt(slot: number, horizonMs: number): number | null {
+    if (slot === 0) return 0;
+    const known = this.dueTimes.get(slot);
+    if (known != null) return known;
+
+    const c = this.dueCursor;
+    while (c.ms < horizonMs) {
+      this.step(c, c.ms + STEP_MS);
+      // Record every slot this step crossed; other testers may be waiting on them
+      for (let k = Math.floor(c.prevAccrued) + 1; k <= c.accrued; k++) {
+        const frac = (k - c.prevAccrued) / (c.accrued - c.prevAccrued);
+        this.dueTimes.set(k, c.prevMs + frac * (c.ms - c.prevMs));
+      }
+      const found = this.dueTimes.get(slot);
+      if (found != null) return found;
+    }
+    return null;
+  }
+
+  /**
+   * Claim the next slot and wait until it is due. Resolves to the slot's
+   * scheduled time, or null if the stop signal fired while waiting.
+   */
+  async acquire(stopSignal: { stopped: boolean }): Promise<number | null> {
+    this.maxBacklog = Math.max(this.maxBacklog, this.backlog());
+    const slot = this.claimed++;
+
+    while (!stopSignal.stopped) {
+      const now = Date.now();
+      const due = this.dueAt(slot, now - this.startMs + MAX_SLEEP_MS);
+      if (due != null && this.startMs + due <= now) {
+        this.dueTimes.delete(slot);
+        return this.startMs + due;
+      }
+      await sleep(due != null ? Math.min(this.startMs + due - now, MAX_SLEEP_MS) : MAX_SLEEP_MS);
+    }
+    return null;
+  }
+}
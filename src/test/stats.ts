@@ -1,11 +1,196 @@
 import chalk from "chalk";
-import type { TesterResult } from "./tester.js";
+import type { ErrorCategory, TesterResult } from "./tester.js";
+import type { BlockAnalysis } from "./blocks.js";
+import { barChart, sparkline } from "../utils/chart.js";
+import { formatToken, type TokenInfo } from "../utils/usdc.js";
+import { describeAmount, type AmountSpec } from "../utils/amount.js";
+import { mixShare, type TxMix, type TxType } from "./mix.js";
+import type { SubmitMode, SubmitPath } from "./submit.js";
+import type { RpcEndpoint } from "../config/networks.js";
 import * as log from "../utils/logger.js";
 
+export type TimeSeriesBucket = {
+  /** Offset of the window start from the beginning of the test. */
+  startMs: number;
+  transactions: number;
+  transactionsPerSecond: number;
+  p50LatencyMs: number;
+  p95LatencyMs: number;
+  p99LatencyMs: number;
+  /** Test transactions that failed for good in this window (as failedTransactions). */
+  errors: number;
+  /** Failed test attempts that were retried. */
+  retries: number;
+  /** Paced runs (--rate / traffic shaping): mean scheduled rate over the window. */
+  targetRate?: number;
+};
+
+export type TimeSeries = {
+  windowMs: number;
+  buckets: TimeSeriesBucket[];
+};
+
+export type HistogramBucket = {
+  /** Inclusive lower bound. */
+  lowerMs: number;
+  /** Exclusive upper bound. */
+  upperMs: number;
+  count: number;
+};
+
+export type LatencyPercentile = {
+  p: number;
+  latencyMs: number;
+};
+
+export type PhaseStats = {
+  count: number;
+  avgMs: number;
+  percentiles: LatencyPercentile[];
+};
+
+/**
+ * Latency split by where the time went:
+ *   submission   — sendTransaction round trip (RPC provider)
+ *   inclusion    — broadcast until the block's timestamp (chain)
+ *   confirmation — block timestamp until our ReceiptStrategy noticed (polling / WS)
+ * Inclusion and confirmation are null when no receipts or block headers exist
+ * (e.g. immediate-receipt mode).
+ */
+export type LatencyPhases = {
+  submission: PhaseStats;
+  inclusion: PhaseStats | null;
+  confirmation: PhaseStats | null;
+};
+
+export type ErrorBreakdown = {
+  category: ErrorCategory;
+  /** Failed attempts in this category, including ones that were retried. */
+  attempts: number;
+  /** Attempts that were not retried, i.e. gave up on the tx. */
+  final: number;
+  /** attempts / all send attempts (successful + failed). */
+  rate: number;
+  /** Most frequent raw RPC message in this category. */
+  topMessage: string;
+};
+
+/** Paced runs (--rate or traffic shaping): offered load vs. what the testers carried. */
+export type OpenLoopStats = {
+  /** The fixed rate, or the rate at a 100% target when shaped. */
+  targetRate: number;
+  /** True if a traffic curve scaled targetRate over time. */
+  shaped?: boolean;
+  /** Send slots that came due during the test, per second. */
+  offeredRate: number;
+  /** Transactions completed per second (same as transactionsPerSecond). */
+  achievedRate: number;
+  /** Most due-but-unclaimed slots seen at once. */
+  peakBacklog: number;
+  /** Due-but-unclaimed slots when the test stopped. */
+  finalBacklog: number;
+  /** Slot due time → send start: how late the testers picked slots up. */
+  queueDelay: PhaseStats;
+};
+
+/** Pipelined (--inflight) mode, summed over all testers. */
+export type PipelineSummary = {
+  /** --inflight; null for uncapped open-loop runs. */
+  inflightPerSender: number | null;
+  /** Most sends one sender had outstanding at once. */
+  peakInflight: number;
+  nonceGaps: number;
+  gapsFilled: number;
+  outOfOrderReceipts: number;
+};
+
+/** What was transferred: the token, the --amount distribution and the total. */
+export type TransferSummary = {
+  token: TokenInfo;
+  /** Human-readable --amount distribution. */
+  distribution: string;
+  /** Base units moved by recorded transfers. */
+  totalAmount: bigint;
+  avgAmount: bigint;
+};
+
+/**
+ * Relay mode (--relay): the two legs of a relayed transfer.
+ *   signToSubmit    — authorization signed until a relayer's broadcast was
+ *                     acknowledged (relayer queueing + RPC round trip)
+ *   submitToReceipt — broadcast until the receipt was observed (null in
+ *                     immediate-receipt mode)
+ */
+export type RelaySummary = {
+  relayers: number;
+  signToSubmit: PhaseStats;
+  submitToReceipt: PhaseStats | null;
+};
+
+/** Mixed workloads (--mix): one entry per transaction type in the mix. */
+export type TxTypeStats = {
+  txType: TxType;
+  /** Share of draws the mix asked for, 0–1. */
+  targetShare: number;
+  /** Share of recorded transactions, 0–1 (transferFrom's approvals count as approve). */
+  actualShare: number;
+  /** Transactions of this type given up on (after retries). */
+  failed: number;
+  latency: PhaseStats;
+  avgGasUsed: number;
+};
+
+/**
+ * --submit raw|compare: how long each broadcast path took.
+ *   sign    — send start until the tx was signed (raw path only; ethers
+ *             signs inside sendTransaction)
+ *   submit  — send start until the RPC acknowledged the broadcast
+ *   latency — end to end, as in the overall latency
+ */
+export type SubmitPathStats = {
+  path: SubmitPath;
+  sign: PhaseStats | null;
+  submit: PhaseStats;
+  latency: PhaseStats;
+};
+
+/**
+ * Several endpoints (--rpc, repeated): how each one's testers fared.
+ *   submit  — send start until the endpoint acknowledged the broadcast
+ *   errors  — failed attempts through it, retried or not
+ */
+export type EndpointStats = {
+  endpoint: string;
+  weight: number;
+  testers: number;
+  transactions: number;
+  transactionsPerSecond: number;
+  /** Transactions given up on (after retries). */
+  failed: number;
+  errors: number;
+  /** Most common error message, if there were any. */
+  topError: string | null;
+  submit: PhaseStats;
+  latency: PhaseStats;
+};
+
+export const DEFAULT_PERCENTILES = [50, 95, 99];
+
+// HDR-style log-linear buckets: each power-of-two range is split into this
+// many equal-width sub-buckets, giving constant relative precision (~25%).
+const HISTOGRAM_SUB_BUCKETS = 4;
+
 export type TestSummary = {
   totalTransactions: number;
   totalDurationMs: number;
   transactionsPerSecond: number;
+  /** Transactions the testers gave up on (after retries). */
+  failedTransactions: number;
+  /** Attempts that were retried; like failedTransactions, test stage only. */
+  retries: number;
+  /** Confirmed / (confirmed + given up), 0–1. */
+  successRate: number;
+  errorsByCategory: ErrorBreakdown[];
   totalGasUsed: bigint;
   avgGasPerTx: number;
   avgLatencyMs: number;
@@ -14,36 +199,268 @@ export type TestSummary = {
   p50LatencyMs: number;
   p95LatencyMs: number;
   p99LatencyMs: number;
+  percentiles: LatencyPercentile[];
+  histogram: HistogramBucket[];
+  phases: LatencyPhases;
+  timeSeries?: TimeSeries;
+  blocks?: BlockAnalysis;
+  openLoop?: OpenLoopStats;
+  pipeline?: PipelineSummary;
+  transfers?: TransferSummary;
+  relay?: RelaySummary;
+  byType?: TxTypeStats[];
+  submitPaths?: SubmitPathStats[];
+  byEndpoint?: EndpointStats[];
+};
+
+export type StatsOptions = {
+  token?: TokenInfo;
+  amount?: AmountSpec;
+  /** Relay mode: number of relayer wallets. */
+  relayers?: number;
+  /** Mixed workload: break the results down per transaction type. */
+  mix?: TxMix;
+  /** Break latency down per broadcast path unless every tx went through ethers. */
+  submit?: SubmitMode;
+  /** Testers were spread over these endpoints: break the results down per endpoint. */
+  endpoints?: RpcEndpoint[];
+  /** Wall-clock start of the test; required for the time series. */
+  startTimeMs?: number;
+  /** Time series window size. Omit to skip bucketing. */
+  windowMs?: number;
+  /** Latency percentiles to report (default 50, 95, 99). */
+  percentiles?: number[];
+  /** Analysis of the blocks our txs landed in (see blocks.ts). */
+  blocks?: BlockAnalysis | null;
+  /** Scheduled rate (tx/s) at a point in the test, for paced runs. */
+  targetRateAt?: (elapsedMs: number) => number;
+  /** Scheduler counters for paced runs. */
+  openLoop?: {
+    targetRate: number;
+    shaped?: boolean;
+    offeredSlots: number;
+    peakBacklog: number;
+    finalBacklog: number;
+  };
 };
 
-function percentile(sorted: number[], p: number): number {
+export function percentile(sorted: number[], p: number): number {
   if (sorted.length === 0) return 0;
   const idx = Math.ceil((p / 100) * sorted.length) - 1;
   return sorted[Math.max(0, idx)];
 }
 
+function phaseStats(values: number[], percentiles: number[]): PhaseStats {
+  values.sort((a, b) => a - b);
+  return {
+    count: values.length,
+    avgMs:
+      values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0,
+    percentiles: percentiles.map((p) => ({
+      p,
+      latencyMs: percentile(values, p),
+    })),
+  };
+}
+
+/** Group every failed attempt (test stage only) by error category. */
+function computeErrorBreakdown(
+  results: TesterResult[],
+  successCount: number
+): ErrorBreakdown[] {
+  const byCategory = new Map<
+    ErrorCategory,
+    { attempts: number; final: number; messages: Map<string, number> }
+  >();
+  let failedAttempts = 0;
+
+  for (const r of results) {
+    for (const f of r.failures) {
+      if (f.stage !== "test") continue;
+      failedAttempts++;
+      let entry = byCategory.get(f.category);
+      if (!entry) {
+        entry = { attempts: 0, final: 0, messages: new Map() };
+        byCategory.set(f.category, entry);
+      }
+      entry.attempts++;
+      if (!f.retried) entry.final++;
+      entry.messages.set(f.message, (entry.messages.get(f.message) ?? 0) + 1);
+    }
+  }
+
+  const totalAttempts = successCount + failedAttempts;
+  return [...byCategory.entries()]
+    .map(([category, e]) => ({
+      category,
+      attempts: e.attempts,
+      final: e.final,
+      rate: totalAttempts > 0 ? e.attempts / totalAttempts : 0,
+      topMessage: [...e.messages.entries()].sort((a, b) => b[1] - a[1])[0][0],
+    }))
+    .sort((a, b) => b.attempts - a.attempts);
+}
+
+/**
+ * Build a log-scaled latency histogram. Bucket boundaries are fixed (not
+ * derived from the data), so histograms from different runs line up.
+ * Only the span from the first to the last non-empty bucket is returned.
+ */
+export function computeHistogram(sortedLatencies: number[]): HistogramBucket[] {
+  if (sortedLatencies.length === 0) return [];
+
+  const bucketOf = (ms: number): [number, number] => {
+    // Everything under 1 ms shares the first bucket
+    if (ms < 1) return [0, 1];
+    const octave = 2 ** Math.floor(Math.log2(ms));
+    const width = octave / HISTOGRAM_SUB_BUCKETS;
+    const lower = octave + Math.floor((ms - octave) / width) * width;
+    return [lower, lower + width];
+  };
+
+  const buckets: HistogramBucket[] = [];
+  for (const ms of sortedLatencies) {
+    const [lowerMs, upperMs] = bucketOf(ms);
+    const last = buckets[buckets.length - 1];
+    if (last && last.lowerMs === lowerMs) {
+      last.count++;
+    } else {
+      // Fill the gap with empty buckets so the chart keeps its scale
+      let next = last ? last.upperMs : lowerMs;
+      while (last && next < lowerMs) {
+        const [l, u] = bucketOf(next);
+        buckets.push({ lowerMs: l, upperMs: u, count: 0 });
+        next = u;
+      }
+      buckets.push({ lowerMs, upperMs, count: 1 });
+    }
+  }
+  return buckets;
+}
+
+/**
+ * Bucket transactions into fixed windows by completion time (TxRecord.timestampMs)
+ * and compute throughput, latency percentiles and test failures per window.
+ */
+export function computeTimeSeries(
+  results: TesterResult[],
+  startTimeMs: number,
+  durationMs: number,
+  windowMs: number,
+  targetRateAt?: (elapsedMs: number) => number
+): TimeSeries {
+  const bucketCount = Math.max(1, Math.ceil(durationMs / windowMs));
+  const latencies: number[][] = Array.from({ length: bucketCount }, () => []);
+  const errors: number[] = new Array(bucketCount).fill(0);
+  const retries: number[] = new Array(bucketCount).fill(0);
+
+  // Clamp into range: txs that complete during shutdown land in the last window
+  const bucketOf = (timestampMs: number) =>
+    Math.min(
+      bucketCount - 1,
+      Math.max(0, Math.floor((timestampMs - startTimeMs) / windowMs))
+    );
+
+  for (const r of results) {
+    for (const tx of r.transactions) {
+      latencies[bucketOf(tx.timestampMs)].push(tx.latencyMs);
+    }
+    // Funding returns and gap fills aren't test traffic
+    for (const f of r.failures) {
+      if (f.stage !== "test") continue;
+      (f.retried ? retries : errors)[bucketOf(f.timestampMs)]++;
+    }
+  }
+
+  const buckets: TimeSeriesBucket[] = latencies.map((l, i) => {
+    l.sort((a, b) => a - b);
+    const startMs = i * windowMs;
+    // The final window may be shorter than windowMs
+    const spanMs = Math.min(windowMs, durationMs - startMs);
+    return {
+      startMs,
+      transactions: l.length,
+      transactionsPerSecond: spanMs > 0 ? l.length / (spanMs / 1000) : 0,
+      p50LatencyMs: percentile(l, 50),
+      p95LatencyMs: percentile(l, 95),
+      p99LatencyMs: percentile(l, 99),
+      errors: errors[i],
+      retries: retries[i],
+      targetRate: targetRateAt && spanMs > 0 ? meanRate(targetRateAt, startMs, startMs + spanMs) : undefined,
+    };
+  });
+
+  return { windowMs, buckets };
+}
+
+// Samples per window when averaging the target rate
+const TARGET_RATE_SAMPLES = 20;
+
+function meanRate(rateAt: (elapsedMs: number) => number, fromMs: number, toMs: number): number {
+  let sum = 0;
+  for (let i = 0; i < TARGET_RATE_SAMPLES; i++) {
+    sum += rateAt(fromMs + ((i + 0.5) / TARGET_RATE_SAMPLES) * (toMs - fromMs));
+  }
+  return sum / TARGET_RATE_SAMPLES;
+}
+
 export function computeStats(
   results: TesterResult[],
-  durationMs: number
+  durationMs: number,
+  options: StatsOptions = {}
 ): TestSummary {
   const allLatencies: number[] = [];
+  const submission: number[] = [];
+  const inclusion: number[] = [];
+  const confirmation: number[] = [];
+  const queueDelay: number[] = [];
+  const signToSubmit: number[] = [];
+  const submitToReceipt: number[] = [];
   let totalGas = 0n;
+  let totalAmount = 0n;
+  // Approve and native txs move no tokens; average over the ones that do
+  let tokenMoves = 0;
 
   for (const r of results) {
     for (const tx of r.transactions) {
       allLatencies.push(tx.latencyMs);
+      submission.push(tx.broadcastMs - tx.sendStartMs);
+      if (tx.inclusionMs != null) inclusion.push(tx.inclusionMs);
+      if (tx.confirmationMs != null) confirmation.push(tx.confirmationMs);
+      if (tx.scheduledMs != null) queueDelay.push(tx.sendStartMs - tx.scheduledMs);
+      if (options.relayers != null && tx.signedMs != null) {
+        signToSubmit.push(tx.broadcastMs - tx.signedMs);
+        if (tx.receiptMs != null) submitToReceipt.push(tx.receiptMs - tx.broadcastMs);
+      }
       totalGas += tx.gasUsed;
+      totalAmount += tx.amount;
+      if (tx.txType === "transfer" || tx.txType === "transferFrom") tokenMoves++;
     }
   }
 
   allLatencies.sort((a, b) => a - b);
 
   const total = allLatencies.length;
+  const percentiles = options.percentiles ?? DEFAULT_PERCENTILES;
+
+  let failed = 0;
+  let retries = 0;
+  for (const r of results) {
+    for (const f of r.failures) {
+      if (f.stage !== "test") continue;
+      if (f.retried) retries++;
+      else failed++;
+    }
+  }
 
   return {
     totalTransactions: total,
     totalDurationMs: durationMs,
     transactionsPerSecond: total > 0 ? total / (durationMs / 1000) : 0,
+    failedTransactions: failed,
+    retries,
+    successRate: total + failed > 0 ? total / (total + failed) : 0,
+    errorsByCategory: computeErrorBreakdown(results, total),
     totalGasUsed: totalGas,
     avgGasPerTx: total > 0 ? Number(totalGas / BigInt(total)) : 0,
     avgLatencyMs:
@@ -53,6 +470,141 @@ export function computeStats(
     p50LatencyMs: percentile(allLatencies, 50),
     p95LatencyMs: percentile(allLatencies, 95),
     p99LatencyMs: percentile(allLatencies, 99),
+    percentiles: percentiles.map((p) => ({
+      p,
+      latencyMs: percentile(allLatencies, p),
+    })),
+    histogram: computeHistogram(allLatencies),
+    phases: {
+      submission: phaseStats(submission, percentiles),
+      inclusion: inclusion.length > 0 ? phaseStats(inclusion, percentiles) : null,
+      confirmation:
+        confirmation.length > 0 ? phaseStats(confirmation, percentiles) : null,
+    },
+    timeSeries:
+      options.startTimeMs != null && options.windowMs
+        ? computeTimeSeries(
+            results,
+            options.startTimeMs,
+            durationMs,
+            options.windowMs,
+            options.targetRateAt
+          )
+        : undefined,
+    blocks: options.blocks ?? undefined,
+    openLoop: options.openLoop && {
+      targetRate: options.openLoop.targetRate,
+      shaped: options.openLoop.shaped,
+      offeredRate: options.openLoop.offeredSlots / (durationMs / 1000),
+      achievedRate: total / (durationMs / 1000),
+      peakBacklog: options.openLoop.peakBacklog,
+      finalBacklog: options.openLoop.finalBacklog,
+      queueDelay: phaseStats(queueDelay, percentiles),
+    },
+    pipeline: summarizePipeline(results),
+    transfers: options.token && options.amount && {
+      token: options.token,
+      distribution: describeAmount(options.amount, options.token),
+      totalAmount,
+      avgAmount: tokenMoves > 0 ? totalAmount / BigInt(tokenMoves) : 0n,
+    },
+    relay: options.relayers != null ? {
+      relayers: options.relayers,
+      signToSubmit: phaseStats(signToSubmit, percentiles),
+      submitToReceipt:
+        submitToReceipt.length > 0 ? phaseStats(submitToReceipt, percentiles) : null,
+    } : undefined,
+    byType: options.mix && computeTypeStats(results, options.mix, percentiles),
+    submitPaths:
+      options.submit && options.submit !== "ethers"
+        ? computeSubmitPathStats(results, options.submit, percentiles)
+        : undefined,
+    byEndpoint:
+      options.endpoints && computeEndpointStats(results, options.endpoints, durationMs, percentiles),
+  };
+}
+
+function computeEndpointStats(
+  results: TesterResult[],
+  endpoints: RpcEndpoint[],
+  durationMs: number,
+  percentiles: number[]
+): EndpointStats[] {
+  return endpoints.map(({ url, weight }) => {
+    const txs = results.flatMap((r) => r.transactions.filter((tx) => tx.endpoint === url));
+    const failures = results.flatMap((r) => r.failures.filter((f) => f.endpoint === url && f.stage === "test"));
+    const messages = new Map<string, number>();
+    for (const f of failures) messages.set(f.message, (messages.get(f.message) ?? 0) + 1);
+    return {
+      endpoint: url,
+      weight,
+      // A tester sends through one endpoint for the whole run
+      testers: results.filter(
+        (r) => r.transactions.some((tx) => tx.endpoint === url) || r.failures.some((f) => f.endpoint === url)
+      ).length,
+      transactions: txs.length,
+      transactionsPerSecond: durationMs > 0 ? txs.length / (durationMs / 1000) : 0,
+      failed: failures.filter((f) => !f.retried).length,
+      errors: failures.length,
+      topError: [...messages.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null,
+      submit: phaseStats(txs.map((tx) => tx.broadcastMs - tx.sendStartMs), percentiles),
+      latency: phaseStats(txs.map((tx) => tx.latencyMs), percentiles),
+    };
+  });
+}
+
+function computeSubmitPathStats(
+  results: TesterResult[],
+  mode: SubmitMode,
+  percentiles: number[]
+): SubmitPathStats[] {
+  const txs = results.flatMap((r) => r.transactions);
+  const paths: SubmitPath[] = mode === "compare" ? ["ethers", "raw"] : [mode];
+  return paths.map((path) => {
+    const ofPath = txs.filter((tx) => tx.submitPath === path);
+    const signed = ofPath.filter((tx) => tx.signedMs != null);
+    return {
+      path,
+      sign: signed.length > 0 ? phaseStats(signed.map((tx) => tx.signedMs! - tx.sendStartMs), percentiles) : null,
+      submit: phaseStats(ofPath.map((tx) => tx.broadcastMs - tx.sendStartMs), percentiles),
+      latency: phaseStats(ofPath.map((tx) => tx.latencyMs), percentiles),
+    };
+  });
+}
+
+function computeTypeStats(
+  results: TesterResult[],
+  mix: TxMix,
+  percentiles: number[]
+): TxTypeStats[] {
+  const txs = results.flatMap((r) => r.transactions);
+  const failures = results.flatMap((r) => r.failures);
+  return mix.map(({ type }) => {
+    const ofType = txs.filter((tx) => tx.txType === type);
+    const gas = ofType.reduce((sum, tx) => sum + tx.gasUsed, 0n);
+    return {
+      txType: type,
+      targetShare: mixShare(mix, type),
+      actualShare: txs.length > 0 ? ofType.length / txs.length : 0,
+      failed: failures.filter((f) => f.txType === type && f.stage === "test" && !f.retried).length,
+      latency: phaseStats(ofType.map((tx) => tx.latencyMs), percentiles),
+      avgGasUsed: ofType.length > 0 ? Number(gas / BigInt(ofType.length)) : 0,
+    };
+  });
+}
+
+function summarizePipeline(results: TesterResult[]): PipelineSummary | undefined {
+  const pipelined = results.filter((r) => r.pipeline);
+  if (pipelined.length === 0) return undefined;
+
+  const sum = (key: "nonceGaps" | "gapsFilled" | "outOfOrderReceipts") =>
+    pipelined.reduce((s, r) => s + r.pipeline![key], 0);
+  return {
+    inflightPerSender: pipelined[0].pipeline!.inflight,
+    peakInflight: Math.max(...pipelined.map((r) => r.pipeline!.peakInflight)),
+    nonceGaps: sum("nonceGaps"),
+    gapsFilled: sum("gapsFilled"),
+    outOfOrderReceipts: sum("outOfOrderReceipts"),
   };
 }
 
@@ -77,16 +629,265 @@ export function printSummary(
     (errorCount > 0 ? chalk.yellow(` (${errorCount} errored out)`) : "")));
   console.log(chalk.bold.white(`  Total transactions:  ${stats.totalTransactions}`));
   console.log(chalk.bold.green(`  Throughput:          ${fmt(stats.transactionsPerSecond)} tx/s`));
+  const successColor = stats.failedTransactions > 0 ? chalk.bold.yellow : chalk.bold.green;
+  console.log(successColor(`  Success rate:        ${fmt(stats.successRate * 100)}%`) +
+    chalk.white(` (${stats.failedTransactions} failed, ${stats.retries} retries)`));
+  if (stats.transfers) {
+    const t = stats.transfers;
+    console.log(chalk.white(`  Token:               ${t.token.symbol} (${t.token.address})`));
+    console.log(chalk.white(`  Amount:              ${t.distribution}`));
+    console.log(chalk.white(`  Volume:              ${formatToken(t.totalAmount, t.token)}` +
+      ` (avg ${formatToken(t.avgAmount, t.token)} per transfer)`));
+  }
+
+  if (stats.openLoop) {
+    const o = stats.openLoop;
+    const p95Delay = o.queueDelay.percentiles.find((x) => x.p === 95) ?? o.queueDelay.percentiles[0];
+    console.log();
+    if (o.shaped) {
+      console.log(chalk.white.bold("  Pacing (traffic curve):"));
+      console.log(chalk.white(`    Rate at 100%:      ${fmt(o.targetRate)} tx/s`));
+    } else {
+      console.log(chalk.white.bold("  Open loop:"));
+      console.log(chalk.white(`    Target rate:       ${fmt(o.targetRate)} tx/s`));
+    }
+    console.log(chalk.white(`    Offered:           ${fmt(o.offeredRate)} tx/s`));
+    console.log(chalk.white(`    Achieved:          ${fmt(o.achievedRate)} tx/s`));
+    console.log(chalk.white(`    Backlog:           peak ${o.peakBacklog}, final ${o.finalBacklog}`));
+    console.log(chalk.white(`    Queue delay:       avg ${fmtMs(o.queueDelay.avgMs)}` +
+      (p95Delay ? `, p${p95Delay.p} ${fmtMs(p95Delay.latencyMs)}` : "")));
+    if (o.finalBacklog > 0) {
+      console.log(chalk.yellow(`    Offered load exceeded what ${parallelTesters} testers could carry — raise --inflight or add testers with -p`));
+    }
+  }
+
+  if (stats.pipeline) {
+    const pl = stats.pipeline;
+    console.log();
+    console.log(chalk.white.bold("  Pipelining:"));
+    console.log(chalk.white(
+      pl.inflightPerSender != null
+        ? `    In flight:         ${pl.inflightPerSender} per sender`
+        : `    In flight:         uncapped (open loop), peak ${pl.peakInflight} per sender`
+    ));
+    console.log(chalk.white(`    Out-of-order:      ${pl.outOfOrderReceipts} receipts (${fmt(stats.totalTransactions > 0 ? (pl.outOfOrderReceipts / stats.totalTransactions) * 100 : 0)}%)`));
+    const gapColor = pl.gapsFilled < pl.nonceGaps ? chalk.yellow : chalk.white;
+    console.log(gapColor(`    Nonce gaps:        ${pl.nonceGaps} (${pl.gapsFilled} filled)`));
+    if (pl.gapsFilled < pl.nonceGaps) {
+      console.log(chalk.yellow("    Unfilled gaps leave later txs stuck in the mempool until those nonces are used"));
+    }
+  }
+
+  if (stats.relay) {
+    const r = stats.relay;
+    const legs: [string, PhaseStats | null][] = [
+      ["Sign → submit:    ", r.signToSubmit],
+      ["Submit → receipt: ", r.submitToReceipt],
+    ];
+    console.log();
+    console.log(chalk.white.bold("  Relay:"));
+    console.log(chalk.white(`    Relayers:          ${r.relayers}`));
+    for (const [label, leg] of legs) {
+      if (!leg) continue;
+      const pcts = leg.percentiles.map((x) => `p${x.p} ${fmtMs(x.latencyMs)}`).join(", ");
+      console.log(chalk.white(`    ${label} avg ${fmtMs(leg.avgMs)}, ${pcts}`));
+    }
+  }
+
+  if (stats.byType) {
+    console.log();
+    console.log(chalk.white.bold("  Mix:"));
+    const header = ["Type", "Target", "Actual", "Failed", "Average", ...stats.percentiles.map(({ p }) => `p${p}`), "Gas/tx"];
+    const rows = [
+      header,
+      ...stats.byType.map((t) => [
+        t.txType,
+        `${fmt(t.targetShare * 100)}%`,
+        `${fmt(t.actualShare * 100)}%`,
+        String(t.failed),
+        t.latency.count > 0 ? fmtMs(t.latency.avgMs) : "—",
+        ...t.latency.percentiles.map((x) => (t.latency.count > 0 ? fmtMs(x.latencyMs) : "—")),
+        fmt(t.avgGasUsed),
+      ]),
+    ];
+    const widths = header.map((_, i) => Math.max(...rows.map((r) => r[i].length)));
+    for (const row of rows) {
+      const line = row.map((c, i) => (i === 0 ? c.padEnd(widths[i]) : c.padStart(widths[i]))).join("   ");
+      console.log(chalk.white(`    ${line}`));
+    }
+  }
+
+  if (stats.submitPaths) {
+    console.log();
+    console.log(chalk.white.bold("  Submit paths:"));
+    const header = ["Path", "Txs", "Sign", "Send → ack", ...stats.percentiles.map(({ p }) => `p${p}`), "Latency"];
+    const rows = [
+      header,
+      ...stats.submitPaths.map((s) => [
+        s.path,
+        String(s.submit.count),
+        s.sign ? fmtMs(s.sign.avgMs) : "—",
+        s.submit.count > 0 ? fmtMs(s.submit.avgMs) : "—",
+        ...s.submit.percentiles.map((x) => (s.submit.count > 0 ? fmtMs(x.latencyMs) : "—")),
+        s.latency.count > 0 ? fmtMs(s.latency.avgMs) : "—",
+      ]),
+    ];
+    const widths = header.map((_, i) => Math.max(...rows.map((r) => r[i].length)));
+    for (const row of rows) {
+      const line = row.map((c, i) => (i === 0 ? c.padEnd(widths[i]) : c.padStart(widths[i]))).join("   ");
+      console.log(chalk.white(`    ${line}`));
+    }
+    const [viaEthers, viaRaw] = stats.submitPaths;
+    if (stats.submitPaths.length === 2 && viaEthers.submit.count > 0 && viaRaw.submit.count > 0) {
+      const overhead = viaEthers.submit.avgMs - viaRaw.submit.avgMs;
+      console.log(chalk.white(`    Client overhead:   ethers adds ${fmtMs(overhead)} per send (avg send → ack, ethers − raw)`));
+    }
+  }
+
+  if (stats.byEndpoint) {
+    console.log();
+    console.log(chalk.white.bold("  Endpoints:"));
+    const header = ["Endpoint", "Weight", "Testers", "Txs", "TPS", "Failed", "Errors", "Send → ack", "Average", ...stats.percentiles.map(({ p }) => `p${p}`)];
+    const rows = [
+      header,
+      ...stats.byEndpoint.map((e) => [
+        e.endpoint,
+        fmt(e.weight),
+        String(e.testers),
+        String(e.transactions),
+        fmt(e.transactionsPerSecond),
+        String(e.failed),
+        String(e.errors),
+        e.submit.count > 0 ? fmtMs(e.submit.avgMs) : "—",
+        e.latency.count > 0 ? fmtMs(e.latency.avgMs) : "—",
+        ...e.latency.percentiles.map((x) => (e.latency.count > 0 ? fmtMs(x.latencyMs) : "—")),
+      ]),
+    ];
+    const widths = header.map((_, i) => Math.max(...rows.map((r) => r[i].length)));
+    for (const row of rows) {
+      const line = row.map((c, i) => (i === 0 ? c.padEnd(widths[i]) : c.padStart(widths[i]))).join("   ");
+      console.log(chalk.white(`    ${line}`));
+    }
+    for (const e of stats.byEndpoint) {
+      if (e.topError) console.log(chalk.yellow(`    ${e.endpoint}: ${e.topError.slice(0, 80)}`));
+    }
+  }
+
+  if (stats.errorsByCategory.length > 0) {
+    console.log();
+    console.log(chalk.white.bold("  Errors:"));
+    const rows = [["Category", "Attempts", "Gave up", "Rate", "Most common message"]];
+    for (const e of stats.errorsByCategory) {
+      rows.push([
+        e.category,
+        String(e.attempts),
+        String(e.final),
+        `${fmt(e.rate * 100)}%`,
+        e.topMessage.slice(0, 80),
+      ]);
+    }
+    const widths = rows[0].map((_, i) => Math.max(...rows.map((r) => r[i].length)));
+    for (const row of rows) {
+      console.log(chalk.yellow(`    ${row.map((c, i) => c.padEnd(widths[i])).join("  ")}`));
+    }
+  }
 
   console.log();
   console.log(chalk.white.bold("  Latency:"));
   console.log(chalk.white(`    Average:           ${fmtMs(stats.avgLatencyMs)}`));
-  console.log(chalk.white(`    Median (p50):      ${fmtMs(stats.p50LatencyMs)}`));
-  console.log(chalk.white(`    p95:               ${fmtMs(stats.p95LatencyMs)}`));
-  console.log(chalk.white(`    p99:               ${fmtMs(stats.p99LatencyMs)}`));
+  for (const { p, latencyMs } of stats.percentiles) {
+    const label = p === 50 ? "Median (p50):" : `p${p}:`;
+    console.log(chalk.white(`    ${label.padEnd(19)}${fmtMs(latencyMs)}`));
+  }
   console.log(chalk.white(`    Min:               ${fmtMs(stats.minLatencyMs)}`));
   console.log(chalk.white(`    Max:               ${fmtMs(stats.maxLatencyMs)}`));
 
+  if (stats.phases.inclusion) {
+    console.log();
+    console.log(chalk.white.bold("  Latency phases:"));
+    const header = ["", "Average", ...stats.percentiles.map(({ p }) => `p${p}`)];
+    const phaseRow = (label: string, ph: PhaseStats | null) =>
+      ph
+        ? [label, fmtMs(ph.avgMs), ...ph.percentiles.map((x) => fmtMs(x.latencyMs))]
+        : [label, "—", ...stats.percentiles.map(() => "—")];
+    const rows = [
+      header,
+      phaseRow("Submission", stats.phases.submission),
+      phaseRow("Inclusion", stats.phases.inclusion),
+      phaseRow("Confirmation", stats.phases.confirmation),
+    ];
+    const widths = header.map((_, i) => Math.max(...rows.map((r) => r[i].length)));
+    for (const row of rows) {
+      const line = row.map((c, i) => (i === 0 ? c.padEnd(widths[i]) : c.padStart(widths[i]))).join("   ");
+      console.log(chalk.white(`    ${line}`));
+    }
+  }
+
+  if (stats.histogram.length > 1) {
+    console.log();
+    console.log(chalk.white.bold("  Latency distribution:"));
+    const total = stats.totalTransactions;
+    const lines = barChart(
+      stats.histogram.map((b) => ({
+        label: `${fmt(b.lowerMs)}–${fmt(b.upperMs)} ms`,
+        value: b.count,
+        note: b.count > 0 ? `${b.count} (${fmt((b.count / total) * 100)}%)` : undefined,
+      }))
+    );
+    for (const line of lines) {
+      console.log(chalk.white(`    ${line}`));
+    }
+  }
+
+  if (stats.timeSeries && stats.timeSeries.buckets.length > 1) {
+    const { windowMs, buckets } = stats.timeSeries;
+    const tps = buckets.map((b) => b.transactionsPerSecond);
+    const p95 = buckets.map((b) => b.p95LatencyMs);
+    const totalErrors = buckets.reduce((s, b) => s + b.errors, 0);
+    const totalRetries = buckets.reduce((s, b) => s + b.retries, 0);
+
+    console.log();
+    console.log(chalk.white.bold(`  Over time (${fmt(windowMs / 1000)}s windows):`));
+    console.log(chalk.white(`    Throughput:        ${sparkline(tps)}  ${fmt(Math.min(...tps))}–${fmt(Math.max(...tps))} tx/s`));
+    console.log(chalk.white(`    p95 latency:       ${sparkline(p95)}  ${fmtMs(Math.min(...p95))}–${fmtMs(Math.max(...p95))}`));
+    if (totalErrors > 0) {
+      const errs = buckets.map((b) => b.errors);
+      console.log(chalk.yellow(`    Errors:            ${sparkline(errs)}  ${totalErrors} failed`));
+    }
+    if (totalRetries > 0) {
+      const retried = buckets.map((b) => b.retries);
+      console.log(chalk.yellow(`    Retries:           ${sparkline(retried)}  ${totalRetries} retried`));
+    }
+
+    const paced = buckets.filter((b) => b.targetRate != null);
+    if (paced.length > 0) {
+      const target = paced.map((b) => b.targetRate!);
+      const totalTarget = target.reduce((s, t) => s + t, 0);
+      const absError = paced.reduce((s, b) => s + Math.abs(b.transactionsPerSecond - b.targetRate!), 0);
+      const behind = paced.filter((b) => b.transactionsPerSecond < b.targetRate! * 0.9).length;
+      console.log(chalk.white(`    Target:            ${sparkline(target)}  ${fmt(Math.min(...target))}–${fmt(Math.max(...target))} tx/s`));
+      const trackColor = behind > 0 ? chalk.yellow : chalk.white;
+      console.log(trackColor(`    Tracking error:    ${fmt(totalTarget > 0 ? (absError / totalTarget) * 100 : 0)}% (${behind} of ${paced.length} windows under 90% of target)`));
+    }
+  }
+
+  if (stats.blocks) {
+    const b = stats.blocks;
+    const pct = (x: number) => `${fmt(x * 100)}%`;
+    console.log();
+    console.log(chalk.white.bold("  Blocks:"));
+    console.log(chalk.white(`    Landed in:         ${b.blockCount} blocks (span of ${b.blockSpan})`));
+    console.log(chalk.white(`    Our txs / block:   avg ${fmt(b.avgOurTxsPerBlock)}, max ${b.maxOurTxsPerBlock}`));
+    console.log(chalk.white(`    All txs / block:   avg ${fmt(b.avgTotalTxsPerBlock)} (ours: ${pct(b.ourTxShare)})`));
+    console.log(chalk.white(`    Fullness:          avg ${pct(b.avgFullness)}, p50 ${pct(b.p50Fullness)}, max ${pct(b.maxFullness)}`));
+    console.log(chalk.white(`    Block time:        avg ${fmtMs(b.avgBlockTimeMs)}, p50 ${fmtMs(b.p50BlockTimeMs)}, p95 ${fmtMs(b.p95BlockTimeMs)} (${fmtMs(b.minBlockTimeMs)}–${fmtMs(b.maxBlockTimeMs)})`));
+    if (b.avgFullness >= 0.9) {
+      console.log(chalk.yellow("    Blocks were near their gas limit — throughput is likely chain-bound"));
+    } else {
+      console.log(chalk.white("    Blocks had spare gas — throughput is likely bound by the test pipeline"));
+    }
+  }
+
   console.log();
   console.log(chalk.white.bold("  Gas:"));
   console.log(chalk.white(`    Total used:        ${stats.totalGasUsed.toLocaleString()}`));
@@ -100,7 +901,15 @@ export function printSummary(
       count > 0
         ? r.transactions.reduce((s, t) => s + t.latencyMs, 0) / count
         : 0;
-    const status = r.completedCleanly ? "" : chalk.yellow(" (errored)");
+    const lastFailure = r.failures.filter((f) => f.stage === "test" && !f.retried).pop();
+    const returnFailed = r.failures.some((f) => f.stage === "return" && !f.retried);
+    let status = r.completedCleanly
+      ? ""
+      : chalk.yellow(` (errored${lastFailure ? `: ${lastFailure.message.slice(0, 60)}` : ""})`);
+    if (returnFailed) status += chalk.yellow(" (USDC not returned to its first wallet)");
+    if (r.pipeline && r.pipeline.gapsFilled < r.pipeline.nonceGaps) {
+      status += chalk.yellow(` (${r.pipeline.nonceGaps - r.pipeline.gapsFilled} nonce gap(s) unfilled)`);
+    }
     console.log(
       chalk.white(`    Tester #${r.pairIndex}:  ${count} txs,  avg ${fmtMs(avg)}`) + status
     );
@@ -0,0 +1,96 @@
+import {
+  Transaction,
+  TransactionResponse,
+  type JsonRpcProvider,
+  type Wallet,
+} from "ethers";
+import { rpcSendRawTx } from "../utils/rpc.js";
+
+/**
+ * How testers broadcast (--submit):
+ *   ethers   wallet.sendTransaction, which populates, signs and broadcasts
+ *   raw      sign locally and send eth_sendRawTransaction over the shared
+ *            undici pool (see utils/rpc.ts), skipping ethers entirely
+ *   compare  alternate between the two, so both see the same network
+ */
+export const SUBMIT_MODES = ["ethers", "raw", "compare"] as const;
+export type SubmitMode = (typeof SUBMIT_MODES)[number];
+/** The path one transaction was actually sent by. */
+export type SubmitPath = Exclude<SubmitMode, "compare">;
+
+/** Every field a send needs, so nothing is looked up over RPC at send time. */
+export type PreparedTx = {
+  to: string;
+  data?: string;
+  value?: bigint;
+  gasLimit: bigint;
+  nonce: number;
+  maxFeePerGas?: bigint | null;
+  maxPriorityFeePerGas?: bigint | null;
+  gasPrice?: bigint | null;
+};
+
+export type Submission = {
+  response: TransactionResponse;
+  path: SubmitPath;
+  /** Raw path: when local signing finished (ethers signs out of sight). */
+  signedMs: number | null;
+};
+
+export type Submit = (signer: Wallet, tx: PreparedTx) => Promise<Submission>;
+
+/** The ethers path on its own; what testers use without --submit. */
+export const submitWithEthers: Submit = async (signer, tx) => ({
+  response: await signer.sendTransaction(tx),
+  path: "ethers",
+  signedMs: null,
+});
+
+export async function createSubmitter(
+  mode: SubmitMode,
+  provider: JsonRpcProvider,
+  rpcUrl: string
+): Promise<Submit> {
+  if (mode === "ethers") return submitWithEthers;
+
+  const network = await provider.getNetwork();
+  const submitRaw: Submit = async (signer, tx) => {
+    const signed = Transaction.from({ ...tx, chainId: network.chainId });
+    signed.signature = signer.signingKey.sign(signed.unsignedHash);
+    const signedMs = Date.now();
+    await rpcSendRawTx(rpcUrl, signed.serialized);
+    return {
+      // A pending response like the one ethers returns for its own broadcasts
+      // (no block fields yet), so receipt strategies can poll or call wait()
+      response: new TransactionResponse(
+        {
+          blockNumber: null,
+          blockHash: null,
+          hash: signed.hash!,
+          index: 0,
+          type: signed.type!,
+          to: signed.to,
+          from: signed.from!,
+          nonce: signed.nonce,
+          gasLimit: signed.gasLimit,
+          gasPrice: signed.gasPrice ?? signed.maxFeePerGas ?? 0n,
+          maxPriorityFeePerGas: signed.maxPriorityFeePerGas,
+          maxFeePerGas: signed.maxFeePerGas,
+          data: signed.data,
+          value: signed.value,
+          chainId: signed.chainId,
+          signature: signed.signature!,
+          accessList: signed.accessList,
+          authorizationList: signed.authorizationList,
+        },
+        provider
+      ),
+      path: "raw",
+      signedMs,
+    };
+  };
+  if (mode === "raw") return submitRaw;
+
+  let turn = 0;
+  return (signer, tx) => (turn++ % 2 === 0 ? submitWithEthers : submitRaw)(signer, tx);
+}
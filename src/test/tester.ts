@@ -1,32 +1,129 @@
-import { Contract, Wallet, type JsonRpcProvider } from "ethers";
-import { ERC20_ABI, USDC_CENT } from "../utils/usdc.js";
-import type { WalletPair } from "../wallet/derive.js";
+import { Contract, MaxUint256, Wallet, type JsonRpcProvider, type TypedDataDomain } from "ethers";
+import { ERC20_ABI } from "../utils/usdc.js";
+import { signTransferAuthorization } from "../utils/eip3009.js";
+import { createAmountSampler, type AmountSpec } from "../utils/amount.js";
+import type { WalletGroup } from "../wallet/derive.js";
+import type { MeshRegistry } from "./mesh.js";
+import { createMixSampler, TRANSFER_ONLY, type TxMix, type TxType } from "./mix.js";
+import type { RelayerPool } from "./relayer.js";
+import { submitWithEthers, type Submission, type Submit, type SubmitPath } from "./submit.js";
 import type { ReceiptStrategy } from "./receipt.js";
+import type { RateScheduler } from "./scheduler.js";
 
 // Fallback gas limit for USDC transfers when no RPC estimate is available.
-const DEFAULT_TRANSFER_GAS_LIMIT = 100_000n;
+export const DEFAULT_TRANSFER_GAS_LIMIT = 100_000n;
+// Fallbacks for the other --mix transaction types
+export const DEFAULT_APPROVE_GAS_LIMIT = 60_000n;
+export const DEFAULT_TRANSFER_FROM_GAS_LIMIT = 120_000n;
+export const DEFAULT_NATIVE_GAS_LIMIT = 21_000n;
+
+// A "native" mix transaction sends this many wei (it measures the tx, not the value)
+const NATIVE_TRANSFER_WEI = 1n;
 
 // Retry config for transient RPC errors (rate limits, connection drops)
-const MAX_RETRIES = 3;
-const RETRY_BASE_MS = 500;
+export const MAX_RETRIES = 3;
+export const RETRY_BASE_MS = 500;
 
 export type TxRecord = {
+  /** What was sent: a transfer unless --mix says otherwise. */
+  txType: TxType;
+  /** How it was broadcast (--submit); relayed txs always go through ethers. */
+  submitPath: SubmitPath;
+  /** RPC endpoint it was broadcast through and its receipt polled from. */
+  endpoint: string;
   txHash: string;
+  /** Sender nonce (relay mode: the relayer's nonce). */
+  nonce: number;
   latencyMs: number;
   gasUsed: bigint;
-  direction: "A→B" | "B→A";
+  /**
+   * Pair topology: which way the USDC moved ("A→A" is a pipelined
+   * self-transfer). Other topologies: the topology name.
+   */
+  direction: "A→B" | "B→A" | "A→A" | "ring" | "fanout" | "mesh";
+  /**
+   * Where the token (or, for native, the coin) moved from and to, as
+   * positions in the derived set. A transferFrom is signed by `toWallet`.
+   */
+  fromWallet: number;
+  toWallet: number;
+  /** Token base units transferred (0 for approve and native). */
+  amount: bigint;
+  timestampMs: number;
+  /** Open-loop mode: when the scheduler slot for this tx came due. */
+  scheduledMs: number | null;
+  /** When the tester started sending this tx (before signing). */
+  sendStartMs: number;
+  /**
+   * When signing finished: the holder's authorization in relay mode, the
+   * transaction itself on the raw submit path. Null when ethers signed it.
+   */
+  signedMs: number | null;
+  /** When the RPC acknowledged the broadcast. */
+  broadcastMs: number;
+  /** When the receipt was observed; null in immediate-receipt mode. */
+  receiptMs: number | null;
+  blockNumber: number | null;
+  effectiveGasPrice: bigint | null;
+  /**
+   * Broadcast → block timestamp, and block timestamp → receipt observed.
+   * Filled in after the run from block headers (see blocks.ts); null when
+   * there is no receipt. Block timestamps have 1s resolution, so these are
+   * estimates.
+   */
+  inclusionMs: number | null;
+  confirmationMs: number | null;
+};
+
+export type ErrorCategory = "deterministic" | "transient" | "unknown";
+
+/** One failed send/receipt attempt. Retried attempts are recorded too. */
+export type TxFailure = {
   timestampMs: number;
+  txType: TxType;
+  endpoint: string;
+  direction: TxRecord["direction"];
+  /** Null in relay mode, where the relayer picks the nonce. */
+  nonce: number | null;
+  /** 1-based attempt number for this tx. */
+  attempt: number;
+  category: ErrorCategory;
+  /** True if the tester retried after this attempt. */
+  retried: boolean;
+  /**
+   * "return" = sending the USDC back to the tester's first wallet after the test;
+   * "gap" = filling a nonce left unused by a failed pipelined send.
+   */
+  stage: "test" | "return" | "gap";
+  /** Raw RPC message, unwrapped from ethers' error wrappers. */
+  message: string;
+};
+
+export type PipelineStats = {
+  /** --inflight; null for open-loop runs without a cap. */
+  inflight: number | null;
+  /** Most sends outstanding at once. */
+  peakInflight: number;
+  /** Nonces whose tx was given up on, leaving later nonces stuck until filled. */
+  nonceGaps: number;
+  /** Gaps that were later filled with a replacement tx. */
+  gapsFilled: number;
+  /** Receipts observed after a receipt for a higher nonce. */
+  outOfOrderReceipts: number;
 };
 
 export type TesterResult = {
   pairIndex: number;
   transactions: TxRecord[];
+  failures: TxFailure[];
+  /** Pipelined mode (--inflight) only. */
+  pipeline?: PipelineStats;
   /** True if the tester ran until the stop signal (timer/Ctrl+C), false if it errored out. */
   completedCleanly: boolean;
 };
 
 /** Dig through ethers' error wrappers to find the real RPC message + data. */
-function extractRpcError(err: any): string {
+export function extractRpcError(err: any): string {
   const inner = err.error || err.info?.error;
   const data = inner?.data || err.error?.error?.data;
   const msg =
@@ -55,7 +152,7 @@ function isDeterministicError(err: any): boolean {
 }
 
 /** Check if an error is transient (RPC issue, not an on-chain revert). */
-function isTransientError(err: any): boolean {
+export function isTransientError(err: any): boolean {
   if (isDeterministicError(err)) return false;
 
   const msg = (err.message || err.shortMessage || "").toLowerCase();
@@ -75,55 +172,153 @@ function isTransientError(err: any): boolean {
     msg.includes("http 502") ||
     msg.includes("http 503") ||
     msg.includes("http 504") ||
+    // undici socket and timeout errors (raw submission)
+    String(err.code ?? "").startsWith("UND_ERR") ||
     err.code === "TIMEOUT" ||
     err.code === "NETWORK_ERROR" ||
     err.code === "SERVER_ERROR"
   );
 }
 
+export function classifyError(err: any): ErrorCategory {
+  if (isDeterministicError(err)) return "deterministic";
+  if (isTransientError(err)) return "transient";
+  return "unknown";
+}
+
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
 
+/**
+ * Live notifications from a running tester. The runner fans these out to the
+ * progress spinner, the CSV log and the metrics endpoint.
+ */
+export type TesterEvents = {
+  /** A send attempt is starting (retries fire this again). */
+  onSend?: (pairIndex: number, direction: TxRecord["direction"]) => void;
+  /** A transaction completed and was recorded. */
+  onTransaction?: (pairIndex: number, tx: TxRecord) => void;
+  /** A send attempt failed (see TxFailure.retried). */
+  onFailure?: (pairIndex: number, failure: TxFailure) => void;
+};
+
+/** Merge several listeners into one; undefined entries are skipped. */
+export function combineEvents(
+  ...listeners: (TesterEvents | undefined)[]
+): TesterEvents {
+  const active = listeners.filter((l): l is TesterEvents => !!l);
+  return {
+    onSend: (i, d) => active.forEach((l) => l.onSend?.(i, d)),
+    onTransaction: (i, tx) => active.forEach((l) => l.onTransaction?.(i, tx)),
+    onFailure: (i, f) => active.forEach((l) => l.onFailure?.(i, f)),
+  };
+}
+
+export type TesterContext = {
+  provider: JsonRpcProvider;
+  usdcAddress: string;
+  /** Transfer amount distribution (--amount). */
+  amount: AmountSpec;
+  estimatedBlockTimeMs: number;
+  stopSignal: { stopped: boolean };
+  receiptStrategy: ReceiptStrategy;
+  immediateReceipt?: boolean;
+  /** Endpoint `provider` talks to; raw submissions go there and records are tagged with it. */
+  rpcUrl: string;
+  /** How to broadcast (--submit); wallet.sendTransaction when omitted. */
+  submit?: Submit;
+  erc20GasLimit?: bigint;
+  /** Mixed workload (--mix): weighted transaction types, and their gas limits. */
+  mix?: TxMix;
+  approveGasLimit?: bigint;
+  transferFromGasLimit?: bigint;
+  nativeGasLimit?: bigint;
+  /**
+   * Open-loop or shaped mode: shared scheduler that hands out send slots.
+   * Only the pipelined tester dispatches them (see runPipelinedTester).
+   */
+  scheduler?: RateScheduler;
+  /** Mesh topology: tracks which wallets hold USDC across all testers. */
+  mesh?: MeshRegistry;
+  /**
+   * Relay mode (--relay): holders sign EIP-3009 authorizations and the pool's
+   * relayer wallets submit them, so holders never pay gas.
+   */
+  relay?: { pool: RelayerPool; domain: TypedDataDomain };
+  events?: TesterEvents;
+};
+
+/**
+ * Closed-loop tester: one transfer in flight at a time, each sent by whichever
+ * wallet holds the USDC. The group's topology decides the recipient — the
+ * other wallet of a pair, the next wallet of a ring, the next recipient of a
+ * fanout, or a random free wallet of the mesh.
+ */
 export async function runTester(
-  pair: WalletPair,
-  provider: JsonRpcProvider,
-  usdcAddress: string,
-  estimatedBlockTimeMs: number,
-  stopSignal: { stopped: boolean },
-  receiptStrategy: ReceiptStrategy,
-  immediateReceipt?: boolean,
-  rpcUrl?: string,
-  trafficCurve?: { currentTarget: number },
-  erc20GasLimit?: bigint
+  group: WalletGroup,
+  ctx: TesterContext
 ): Promise<TesterResult> {
+  const {
+    provider,
+    usdcAddress,
+    estimatedBlockTimeMs,
+    stopSignal,
+    receiptStrategy,
+    immediateReceipt,
+    rpcUrl,
+    erc20GasLimit,
+    mix = TRANSFER_ONLY,
+    approveGasLimit,
+    transferFromGasLimit,
+    nativeGasLimit,
+    mesh,
+    relay,
+    amount,
+    submit = submitWithEthers,
+    events = {},
+  } = ctx;
+  const { topology, walletIndices } = group;
   const transferGasLimit = erc20GasLimit ?? DEFAULT_TRANSFER_GAS_LIMIT;
-  const walletA = new Wallet(pair.sender.privateKey, provider);
-  const walletB = new Wallet(pair.receiver.privateKey, provider);
+  const home = walletIndices[0];
+
+  // Mesh hops reach wallets outside the group, so look those up in the registry
+  const hdWallets = new Map(walletIndices.map((idx, k) => [idx, group.wallets[k]]));
+  const signers = new Map<number, Wallet>();
+  const signerFor = (idx: number): Wallet => {
+    let signer = signers.get(idx);
+    if (!signer) {
+      signer = new Wallet((mesh?.wallets[idx] ?? hdWallets.get(idx)!).privateKey, provider);
+      signers.set(idx, signer);
+    }
+    return signer;
+  };
 
-  // Pre-encode calldata for both directions — avoids ABI encoding per tx
   const iface = new Contract(usdcAddress, ERC20_ABI).interface;
-  const dataAtoB = iface.encodeFunctionData("transfer", [
-    walletB.address,
-    USDC_CENT,
-  ]);
-  const dataBtoA = iface.encodeFunctionData("transfer", [
-    walletA.address,
-    USDC_CENT,
-  ]);
+  const transferTo = (idx: number, value: bigint): string =>
+    iface.encodeFunctionData("transfer", [signerFor(idx).address, value]);
+  const drawAmount = createAmountSampler(amount);
+  const drawTxType = createMixSampler(mix);
+
+  // Nonces are tracked locally to avoid per-tx RPC calls. In a mesh they are
+  // shared: the next tester to send from a wallet continues its sequence.
+  const nonces = mesh?.nonces ?? new Map<number, number>();
+  const nonceFor = async (idx: number): Promise<number> => {
+    if (!nonces.has(idx)) {
+      const fetched = await provider.getTransactionCount(signerFor(idx).address, "pending");
+      // Another tester may have started sending from it meanwhile
+      if (!nonces.has(idx)) nonces.set(idx, fetched);
+    }
+    return nonces.get(idx)!;
+  };
 
-  // Fetch nonces, fee data, and chain ID once — track locally to avoid per-tx RPC calls
-  const [initNonceA, initNonceB, feeData, providerNetwork] = await Promise.all([
-    provider.getTransactionCount(walletA.address, "pending"),
-    provider.getTransactionCount(walletB.address, "pending"),
+  // Fetch nonces and fee data once up front (holders never send when relayed)
+  const [feeData] = await Promise.all([
     provider.getFeeData(),
-    provider.getNetwork(),
+    ...(relay ? [] : walletIndices.map((idx) => nonceFor(idx))),
   ]);
 
-  let nonceA = initNonceA;
-  let nonceB = initNonceB;
-
   // Build fee overrides once (works for both EIP-1559 and legacy chains)
   const feeOverrides = feeData.maxFeePerGas
     ? {
@@ -132,106 +327,285 @@ export async function runTester(
       }
     : { gasPrice: feeData.gasPrice };
 
+  // In relay mode `data` is transferWithAuthorization calldata signed by the
+  // holder, and whichever relayer is least busy broadcasts it
+  type TxRequest = { to: string; data?: string; value?: bigint };
+  const broadcast = async (
+    sender: number,
+    request: TxRequest,
+    gasLimit: bigint,
+    nonce: number | null
+  ): Promise<Submission> =>
+    relay
+      ? { response: await relay.pool.submit(request.to, request.data!), path: "ethers", signedMs: null }
+      : submit(signerFor(sender), { ...request, gasLimit, nonce: nonce!, ...feeOverrides });
+  const authorize = (from: number, to: number, value: bigint): Promise<string> =>
+    signTransferAuthorization(signerFor(from), relay!.domain, signerFor(to).address, value);
+
   const transactions: TxRecord[] = [];
-  // usdcOnA tracks whether the USDC is currently held by wallet A (the even/sender wallet).
-  // It starts true because funding puts USDC on even wallets.
-  let usdcOnA = true;
+  const failures: TxFailure[] = [];
+  const record = (fields: Omit<TxRecord, "endpoint">) => {
+    const tx = { ...fields, endpoint: rpcUrl };
+    transactions.push(tx);
+    events.onTransaction?.(group.index, tx);
+  };
+  const fail = (fields: Omit<TxFailure, "endpoint">) => {
+    const failure = { ...fields, endpoint: rpcUrl };
+    failures.push(failure);
+    events.onFailure?.(group.index, failure);
+  };
+
+  // The wallet currently holding the USDC. Funding puts it on the first wallet;
+  // in a fanout it never moves (the hot wallet pays out of its balance).
+  let holder = home;
+  // The amount travels with the USDC: drawn each time it leaves the first
+  // wallet and carried until it is back, so no hop sends more than its
+  // sender received. A fanout draws a fresh amount for every payout.
+  let carried = 0n;
+  let sent = 0;
+  const nextRecipient = (): number => {
+    switch (topology) {
+      case "pair":
+      case "ring":
+        return walletIndices[(walletIndices.indexOf(holder) + 1) % walletIndices.length];
+      case "fanout":
+        return walletIndices[1 + (sent % (walletIndices.length - 1))];
+      case "mesh":
+        return mesh!.claim();
+    }
+  };
+  const directionOf = (from: number): TxRecord["direction"] =>
+    topology !== "pair" ? topology : from === home ? "A→B" : "B→A";
 
   // Adaptive receipt polling — starts with block time estimate, learns from observations
   let expectedConfirmMs = estimatedBlockTimeMs;
 
   let erroredOut = false;
 
-  while (!stopSignal.stopped) {
-    // Traffic shaping: probabilistic skip to throttle throughput
-    if (trafficCurve) {
-      while (!stopSignal.stopped && Math.random() > trafficCurve.currentTarget) {
-        await sleep(200);
-      }
-      if (stopSignal.stopped) break;
-    }
-
-    const wallet = usdcOnA ? walletA : walletB;
-    const data = usdcOnA ? dataAtoB : dataBtoA;
-    const direction: TxRecord["direction"] = usdcOnA ? "A→B" : "B→A";
-    const nonce = usdcOnA ? nonceA : nonceB;
-
-    const startTime = Date.now();
-    let succeeded = false;
+  /**
+   * Send one transaction, retrying transient errors, and record it. `sender`
+   * signs it; `from` and `to` are where the token (or coin) moves from and to.
+   * Resolves to false if it was given up on or the test stopped.
+   */
+  const sendTx = async (tx: {
+    txType: TxType;
+    sender: number;
+    from: number;
+    to: number;
+    amount: bigint;
+    request: TxRequest;
+    gasLimit: bigint;
+    startTime: number;
+    signedMs: number | null;
+  }): Promise<boolean> => {
+    const direction = directionOf(tx.from);
+    const nonce = relay ? null : await nonceFor(tx.sender);
 
     for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
-      if (stopSignal.stopped) break;
+      if (stopSignal.stopped) return false;
 
+      events.onSend?.(group.index, direction);
       try {
+        const fields = {
+          txType: tx.txType,
+          direction,
+          fromWallet: tx.from,
+          toWallet: tx.to,
+          amount: tx.amount,
+          scheduledMs: null,
+          sendStartMs: tx.startTime,
+          inclusionMs: null,
+          confirmationMs: null,
+        };
         if (immediateReceipt) {
-          // Single RPC round trip — ethers handles tx construction,
-          // we provide all fields so it skips estimateGas/getFeeData calls.
+          // Single RPC round trip — every field is provided, so the send
+          // skips estimateGas/getFeeData calls.
           // Don't wait for receipt — just record the hash and latency.
-          const tx = await wallet.sendTransaction({
-            to: usdcAddress,
-            data,
-            gasLimit: transferGasLimit,
-            nonce,
-            ...feeOverrides,
-          });
+          const { response: sentTx, path, signedMs } = await broadcast(tx.sender, tx.request, tx.gasLimit, nonce);
 
-          const latencyMs = Date.now() - startTime;
-          transactions.push({
-            txHash: tx.hash,
-            latencyMs,
-            gasUsed: transferGasLimit,
-            direction,
-            timestampMs: Date.now(),
+          const broadcastTime = Date.now();
+          record({
+            ...fields,
+            submitPath: path,
+            signedMs: tx.signedMs ?? signedMs,
+            txHash: sentTx.hash,
+            nonce: sentTx.nonce,
+            latencyMs: broadcastTime - tx.startTime,
+            gasUsed: tx.gasLimit,
+            timestampMs: broadcastTime,
+            broadcastMs: broadcastTime,
+            receiptMs: null,
+            blockNumber: null,
+            effectiveGasPrice: null,
           });
         } else {
           // Standard path: send + wait for receipt (2 RPC round trips)
-          const tx = await wallet.sendTransaction({
-            to: usdcAddress,
-            data,
-            gasLimit: transferGasLimit,
-            nonce,
-            ...feeOverrides,
-          });
+          const { response: sentTx, path, signedMs } = await broadcast(tx.sender, tx.request, tx.gasLimit, nonce);
           const broadcastTime = Date.now();
-          const receipt = await receiptStrategy.waitForReceipt(provider, tx, expectedConfirmMs);
-          const latencyMs = Date.now() - startTime;
+          const receipt = await receiptStrategy.waitForReceipt(provider, sentTx, expectedConfirmMs);
+          const receiptTime = Date.now();
 
           // Update expected confirmation time (exponential moving average)
-          const confirmMs = Date.now() - broadcastTime;
+          const confirmMs = receiptTime - broadcastTime;
           expectedConfirmMs = Math.round(
             expectedConfirmMs * 0.7 + confirmMs * 0.3
           );
 
-          transactions.push({
+          record({
+            ...fields,
+            submitPath: path,
+            signedMs: tx.signedMs ?? signedMs,
             txHash: receipt.hash,
-            latencyMs,
+            nonce: sentTx.nonce,
+            latencyMs: receiptTime - tx.startTime,
             gasUsed: receipt.gasUsed,
-            direction,
-            timestampMs: Date.now(),
+            timestampMs: receiptTime,
+            broadcastMs: broadcastTime,
+            receiptMs: receiptTime,
+            blockNumber: receipt.blockNumber,
+            effectiveGasPrice: receipt.gasPrice,
           });
         }
 
-        if (usdcOnA) nonceA++;
-        else nonceB++;
-        usdcOnA = !usdcOnA;
-        succeeded = true;
-        break;
+        if (nonce != null) nonces.set(tx.sender, nonce + 1);
+        return true;
       } catch (err: any) {
-        if (stopSignal.stopped) break;
+        // Record it even after the stop: onSend counted it as in flight
+        const retry = !stopSignal.stopped && isTransientError(err) && attempt < MAX_RETRIES;
+        fail({
+          timestampMs: Date.now(),
+          txType: tx.txType,
+          direction,
+          nonce,
+          attempt: attempt + 1,
+          category: classifyError(err),
+          retried: retry,
+          stage: "test",
+          message: extractRpcError(err),
+        });
 
-        if (isTransientError(err) && attempt < MAX_RETRIES) {
+        if (retry) {
           const delay = RETRY_BASE_MS * 2 ** attempt;
           await sleep(delay);
           continue;
         }
+        return false;
+      }
+    }
+    return false;
+  };
+
+  // Allowances between wallets ("owner:spender"), read on first use. In a
+  // mesh another tester may have granted one, hence the lookup.
+  const allowances = new Map<string, bigint>();
+  const allowanceOf = async (owner: number, spender: number): Promise<bigint> => {
+    const key = `${owner}:${spender}`;
+    if (!allowances.has(key)) {
+      const token = new Contract(usdcAddress, ERC20_ABI, provider);
+      allowances.set(key, await token.allowance(signerFor(owner).address, signerFor(spender).address));
+    }
+    return allowances.get(key)!;
+  };
+  const approve = async (owner: number, spender: number): Promise<boolean> => {
+    const ok = await sendTx({
+      txType: "approve",
+      sender: owner,
+      from: owner,
+      to: spender,
+      amount: 0n,
+      request: {
+        to: usdcAddress,
+        data: iface.encodeFunctionData("approve", [signerFor(spender).address, MaxUint256]),
+      },
+      gasLimit: approveGasLimit ?? DEFAULT_APPROVE_GAS_LIMIT,
+      startTime: Date.now(),
+      signedMs: null,
+    });
+    if (ok) allowances.set(`${owner}:${spender}`, MaxUint256);
+    return ok;
+  };
 
-        const shortReason =
-          err.reason || err.shortMessage || err.message?.slice(0, 120);
-        console.error(
-          `  Tester #${pair.index} error (${direction}): ${shortReason}`
-        );
+  while (!stopSignal.stopped) {
+    const txType = drawTxType();
+    const from = holder;
+    const to = nextRecipient();
+    const moves = txType === "transfer" || txType === "transferFrom";
+    if (moves && (from === home || topology === "fanout")) carried = drawAmount();
+    const value = carried;
+    const startTime = Date.now();
+    let succeeded = false;
+
+    switch (txType) {
+      case "transfer": {
+        // One authorization per transfer, resubmitted as-is on retry: its nonce
+        // can only be used once, so a retry can never move the USDC twice
+        const data = relay ? await authorize(from, to, value) : transferTo(to, value);
+        succeeded = await sendTx({
+          txType,
+          sender: from,
+          from,
+          to,
+          amount: value,
+          request: { to: usdcAddress, data },
+          gasLimit: relay ? relay.pool.gasLimit : transferGasLimit,
+          startTime,
+          signedMs: relay ? Date.now() : null,
+        });
         break;
       }
+      case "approve":
+        succeeded = await approve(from, to);
+        break;
+      case "transferFrom": {
+        // The recipient pulls the USDC, so the holder must have approved it
+        const allowance = await allowanceOf(from, to);
+        const approved = allowance >= value;
+        if (!approved && !(await approve(from, to))) break;
+        succeeded = await sendTx({
+          txType,
+          sender: to,
+          from,
+          to,
+          amount: value,
+          request: {
+            to: usdcAddress,
+            data: iface.encodeFunctionData("transferFrom", [
+              signerFor(from).address,
+              signerFor(to).address,
+              value,
+            ]),
+          },
+          gasLimit: transferFromGasLimit ?? DEFAULT_TRANSFER_FROM_GAS_LIMIT,
+          startTime: approved ? startTime : Date.now(),
+          signedMs: null,
+        });
+        if (succeeded) {
+          allowances.set(`${from}:${to}`, (approved ? allowance : MaxUint256) - value);
+        }
+        break;
+      }
+      case "native":
+        succeeded = await sendTx({
+          txType,
+          sender: from,
+          from,
+          to,
+          amount: 0n,
+          request: { to: signerFor(to).address, value: NATIVE_TRANSFER_WEI },
+          gasLimit: nativeGasLimit ?? DEFAULT_NATIVE_GAS_LIMIT,
+          startTime,
+          signedMs: null,
+        });
+        break;
+    }
+
+    if (succeeded) sent++;
+    if (succeeded && moves && topology !== "fanout") {
+      mesh?.release(from);
+      holder = to;
+    } else {
+      // The claimed mesh recipient didn't get the USDC
+      mesh?.release(to);
     }
 
     if (!succeeded && !stopSignal.stopped) {
@@ -241,34 +615,51 @@ export async function runTester(
     if (!succeeded) break;
   }
 
-  // If USDC ended up on wallet B (the odd wallet), send it back to A
-  // so that cleanup always finds USDC on the even wallets.
-  if (!usdcOnA) {
+  // If the USDC ended up away from the first wallet, send it back so that
+  // the next run (and cleanup) finds it where funding put it.
+  if (holder !== home) {
+    const direction = directionOf(holder);
+    const nonce = relay ? null : await nonceFor(holder);
+    let data: string | null = relay ? null : transferTo(home, carried);
     for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
       try {
-        const tx = await walletB.sendTransaction({
-          to: usdcAddress,
-          data: dataBtoA,
-          gasLimit: transferGasLimit,
-          nonce: nonceB,
-          ...feeOverrides,
-        });
+        data ??= await authorize(holder, home, carried);
+        const { response: tx } = await broadcast(
+          holder,
+          { to: usdcAddress, data },
+          relay ? relay.pool.gasLimit : transferGasLimit,
+          nonce
+        );
         await receiptStrategy.waitForReceipt(provider, tx, expectedConfirmMs);
+        if (nonce != null) nonces.set(holder, nonce + 1);
+        mesh?.release(holder);
         break;
       } catch (err: any) {
-        if (isTransientError(err) && attempt < MAX_RETRIES) {
+        const retry = isTransientError(err) && attempt < MAX_RETRIES;
+        fail({
+          timestampMs: Date.now(),
+          txType: "transfer",
+          direction,
+          nonce,
+          attempt: attempt + 1,
+          category: classifyError(err),
+          retried: retry,
+          stage: "return",
+          message: extractRpcError(err),
+        });
+        if (retry) {
           await sleep(RETRY_BASE_MS * 2 ** attempt);
           continue;
         }
-        const shortReason =
-          err.reason || err.shortMessage || err.message?.slice(0, 120);
-        console.error(
-          `  Tester #${pair.index}: failed to return USDC to sender wallet: ${shortReason}`
-        );
         break;
       }
     }
   }
 
-  return { pairIndex: pair.index, transactions, completedCleanly: !erroredOut };
+  return {
+    pairIndex: group.index,
+    transactions,
+    failures,
+    completedCleanly: !erroredOut,
+  };
 }
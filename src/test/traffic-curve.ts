@@ -1,3 +1,8 @@
+import { readFileSync } from "fs";
+import { parse as parseYaml } from "yaml";
+import { mulberry32, randomSeed } from "../utils/random.js";
+import { sparkline } from "../utils/chart.js";
+
 export type Waypoint = {
   timeMs: number;
   target: number; // 0.0–1.0
@@ -5,16 +10,27 @@ export type Waypoint = {
 
 export type TrafficCurve = {
   waypoints: Waypoint[];
+  /** PRNG seed the waypoints were generated from (random curves only). */
+  seed?: number;
+  /** Path the waypoints were loaded from (--curve-file only). */
+  file?: string;
+  /** Named profile the waypoints were generated from (--traffic-profile only). */
+  profile?: ProfileSpec;
   currentTarget: number;
+  /** Interpolated target at a point in time (does not change currentTarget). */
+  targetAt(elapsedMs: number): number;
   tick(elapsedMs: number): void;
   describe(): string;
 };
 
 /**
  * Generate a random traffic curve spanning durationMs.
- * Produces waypoints with linear interpolation between them.
+ * Produces waypoints with linear interpolation between them. The same seed
+ * always yields the same curve; without one a random seed is picked.
  */
-export function generateCurve(durationMs: number): TrafficCurve {
+export function generateCurve(durationMs: number, seed = randomSeed()): TrafficCurve {
+  const random = mulberry32(seed);
+  const randBetween = (min: number, max: number) => min + random() * (max - min);
   const waypoints: Waypoint[] = [];
 
   // Start at time 0 with a random target between 10–50%
@@ -35,19 +51,29 @@ export function generateCurve(durationMs: number): TrafficCurve {
     waypoints.push({ timeMs: currentTime, target: randBetween(0.1, 0.95) });
   }
 
+  return createCurve(waypoints, { seed });
+}
+
+/**
+ * Build a curve from explicit waypoints. Callers are expected to have
+ * validated them (see validateWaypoints).
+ */
+export function createCurve(
+  waypoints: Waypoint[],
+  origin: { seed?: number; file?: string; profile?: ProfileSpec } = {}
+): TrafficCurve {
   const curve: TrafficCurve = {
     waypoints,
+    ...origin,
     currentTarget: waypoints[0].target,
 
-    tick(elapsedMs: number) {
+    targetAt(elapsedMs: number): number {
       // Find bracketing waypoints and linearly interpolate
       if (elapsedMs <= 0) {
-        curve.currentTarget = waypoints[0].target;
-        return;
+        return waypoints[0].target;
       }
       if (elapsedMs >= waypoints[waypoints.length - 1].timeMs) {
-        curve.currentTarget = waypoints[waypoints.length - 1].target;
-        return;
+        return waypoints[waypoints.length - 1].target;
       }
 
       for (let i = 0; i < waypoints.length - 1; i++) {
@@ -55,14 +81,34 @@ export function generateCurve(durationMs: number): TrafficCurve {
         const b = waypoints[i + 1];
         if (elapsedMs >= a.timeMs && elapsedMs < b.timeMs) {
           const t = (elapsedMs - a.timeMs) / (b.timeMs - a.timeMs);
-          curve.currentTarget = a.target + t * (b.target - a.target);
-          return;
+          return a.target + t * (b.target - a.target);
         }
       }
+      return curve.currentTarget;
+    },
+
+    tick(elapsedMs: number) {
+      curve.currentTarget = curve.targetAt(elapsedMs);
     },
 
     describe(): string {
-      const lines: string[] = ["Traffic curve waypoints:"];
+      if (curve.profile) {
+        const { name, baseline, amplitude, periodMs } = curve.profile;
+        if (name === "flat") return `Traffic profile: flat at ${pct(baseline)}`;
+        const totalMs = waypoints[waypoints.length - 1].timeMs;
+        const samples = Array.from({ length: 60 }, (_, i) => curve.targetAt((i / 59) * totalMs));
+        return [
+          `Traffic profile: ${name} (baseline ${pct(baseline)}, amplitude ${pct(amplitude)}, period ${formatTime(periodMs)})`,
+          `  ${sparkline(samples)}  ${pct(Math.min(...samples))}–${pct(Math.max(...samples))} over ${formatTime(totalMs)}`,
+        ].join("\n");
+      }
+      const from =
+        curve.file != null
+          ? ` (from ${curve.file})`
+          : curve.seed != null
+            ? ` (seed ${curve.seed} — replay with --curve-seed ${curve.seed})`
+            : "";
+      const lines: string[] = [`Traffic curve waypoints${from}:`];
       for (const wp of waypoints) {
         const pct = (wp.target * 100).toFixed(0);
         lines.push(`  ${formatTime(wp.timeMs)} → ${pct}%`);
@@ -74,8 +120,190 @@ export function generateCurve(durationMs: number): TrafficCurve {
   return curve;
 }
 
-function randBetween(min: number, max: number): number {
-  return min + Math.random() * (max - min);
+export const TRAFFIC_PROFILES = ["diurnal", "spike", "sawtooth", "step", "flat"] as const;
+export type TrafficProfile = (typeof TRAFFIC_PROFILES)[number];
+
+export type ProfileSpec = {
+  name: TrafficProfile;
+  /** Target between bursts / at the trough, 0–1. */
+  baseline: number;
+  /** Added on top of the baseline at the peak, 0–1. */
+  amplitude: number;
+  /** Length of one cycle (one day, one spike, one ramp or one stair). */
+  periodMs: number;
+};
+
+// How long a profile takes to jump between levels (spikes, drops, stairs)
+const PROFILE_EDGE_MS = 1000;
+const MIN_PROFILE_PERIOD_MS = 10_000;
+// Waypoints per diurnal cycle; linear interpolation fills the rest
+const DIURNAL_SAMPLES = 24;
+
+/** Default cycle length: one day per run for diurnal, a few cycles otherwise. */
+export function defaultProfilePeriodMs(name: TrafficProfile, durationMs: number): number {
+  switch (name) {
+    case "diurnal":
+    case "flat":
+      return durationMs;
+    case "sawtooth":
+      return durationMs / 4;
+    case "spike":
+    case "step":
+      return durationMs / 5;
+  }
+}
+
+/**
+ * Generate one of the standard load shapes as waypoints:
+ *   - diurnal: sinusoidal day cycle, starting and ending at the trough
+ *   - spike: baseline with a short burst to the peak at the middle of each period
+ *   - sawtooth: ramps up over each period, then drops back to the baseline
+ *   - step: staircase from baseline to peak, one stair per period
+ *   - flat: constant baseline
+ * Targets are clamped to 0–1.
+ */
+export function generateProfile(spec: ProfileSpec, durationMs: number): TrafficCurve {
+  const { name, baseline, amplitude, periodMs } = spec;
+  if (!(periodMs >= MIN_PROFILE_PERIOD_MS)) {
+    throw new Error(`Traffic profile period must be at least ${formatTime(MIN_PROFILE_PERIOD_MS)}`);
+  }
+  const level = (x: number) => Math.min(1, Math.max(0, baseline + amplitude * x));
+  const round = (target: number) => Math.round(target * 10_000) / 10_000;
+  const points: Waypoint[] = [];
+  // Shape value (0–1, before scaling) of the last point added
+  let lastX = 0;
+  const add = (timeMs: number, x: number) => {
+    // Edges past the end of the run are dropped; the end point is added below
+    if (timeMs > durationMs) return;
+    const last = points[points.length - 1];
+    if (last && timeMs <= last.timeMs) return;
+    points.push({ timeMs: Math.round(timeMs), target: round(level(x)) });
+    lastX = x;
+  };
+  // Value at durationMs; defaults to holding the last level
+  let endX: (() => number) | undefined;
+
+  switch (name) {
+    case "flat":
+      add(0, 0);
+      break;
+
+    case "diurnal": {
+      const wave = (t: number) => (1 - Math.cos((2 * Math.PI * t) / periodMs)) / 2;
+      const step = periodMs / DIURNAL_SAMPLES;
+      for (let t = 0; t < durationMs; t += step) add(t, wave(t));
+      endX = () => wave(durationMs);
+      break;
+    }
+
+    case "spike": {
+      // Bursts last a tenth of the period (at least a couple of seconds)
+      const burstMs = Math.max(2 * PROFILE_EDGE_MS, periodMs / 10);
+      add(0, 0);
+      for (let start = 0; start < durationMs; start += periodMs) {
+        const rise = start + (periodMs - burstMs) / 2;
+        add(rise, 0);
+        add(rise + PROFILE_EDGE_MS, 1);
+        add(rise + burstMs - PROFILE_EDGE_MS, 1);
+        add(rise + burstMs, 0);
+      }
+      break;
+    }
+
+    case "sawtooth": {
+      let start = 0;
+      for (; start + periodMs <= durationMs; start += periodMs) {
+        add(start, 0);
+        add(start + periodMs - PROFILE_EDGE_MS, 1);
+      }
+      // Partial last ramp: stop wherever the run ends
+      const rampStart = start;
+      add(rampStart, 0);
+      endX = () => Math.min(1, (durationMs - rampStart) / (periodMs - PROFILE_EDGE_MS));
+      break;
+    }
+
+    case "step": {
+      const stairs = Math.max(1, Math.ceil(durationMs / periodMs));
+      for (let k = 0; k < stairs; k++) {
+        const x = stairs > 1 ? k / (stairs - 1) : 1;
+        add(k * periodMs, x);
+        add((k + 1) * periodMs - PROFILE_EDGE_MS, x);
+      }
+      break;
+    }
+  }
+
+  if (points[points.length - 1].timeMs < durationMs) {
+    points.push({ timeMs: durationMs, target: round(level(endX ? endX() : lastX)) });
+  }
+
+  return createCurve(validateWaypoints(points, durationMs), { profile: spec });
+}
+
+/**
+ * Check that waypoints form a usable curve: at least two points, strictly
+ * increasing times starting at 0, targets within 0–1 and, if given, the last
+ * point exactly at durationMs. Throws with the first problem found.
+ */
+export function validateWaypoints(waypoints: unknown, durationMs?: number): Waypoint[] {
+  if (!Array.isArray(waypoints) || waypoints.length < 2) {
+    throw new Error("A traffic curve needs a list of at least two waypoints");
+  }
+
+  waypoints.forEach((wp, i) => {
+    if (typeof wp?.timeMs !== "number" || typeof wp?.target !== "number") {
+      throw new Error(`Waypoint #${i} must have numeric "timeMs" and "target" fields`);
+    }
+    if (!(wp.target >= 0 && wp.target <= 1)) {
+      throw new Error(`Waypoint #${i} target ${wp.target} is outside 0–1`);
+    }
+    if (i === 0 && wp.timeMs !== 0) {
+      throw new Error(`The first waypoint must be at timeMs 0 (got ${wp.timeMs})`);
+    }
+    if (i > 0 && !(wp.timeMs > waypoints[i - 1].timeMs)) {
+      throw new Error(
+        `Waypoint times must increase: #${i} (${wp.timeMs}) is not after #${i - 1} (${waypoints[i - 1].timeMs})`
+      );
+    }
+  });
+
+  const lastMs = waypoints[waypoints.length - 1].timeMs;
+  if (durationMs != null && lastMs !== durationMs) {
+    throw new Error(
+      `The last waypoint is at ${formatTime(lastMs)} (${lastMs} ms) but the test runs for ${formatTime(durationMs)} — end the curve at the test duration (-d)`
+    );
+  }
+
+  return waypoints.map((wp) => ({ timeMs: wp.timeMs, target: wp.target }));
+}
+
+/**
+ * Read waypoints from a JSON or YAML file. Accepts a bare list, an object
+ * with a `waypoints` list, or a results file written by --output (to replay
+ * a previous run's curve).
+ */
+export function loadCurveFile(path: string): Waypoint[] {
+  let doc: any;
+  try {
+    // YAML is a superset of JSON, so one parser covers both
+    doc = parseYaml(readFileSync(path, "utf8"));
+  } catch (err: any) {
+    throw new Error(`Could not read curve file ${path}: ${err.message}`);
+  }
+
+  const waypoints = Array.isArray(doc)
+    ? doc
+    : (doc?.waypoints ?? doc?.config?.trafficCurve);
+  try {
+    return validateWaypoints(waypoints);
+  } catch (err: any) {
+    throw new Error(`${path}: ${err.message}`);
+  }
+}
+
+function pct(x: number): string {
+  return `${Math.round(x * 100)}%`;
 }
 
 function formatTime(ms: number): string {
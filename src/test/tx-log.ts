@@ -0,0 +1,87 @@
+import { createWriteStream, type WriteStream } from "fs";
+import type { TxRecord } from "./tester.js";
+
+const COLUMNS = [
+  "pair_index",
+  "direction",
+  "nonce",
+  "tx_hash",
+  "scheduled_ms",
+  "send_start_ms",
+  "broadcast_ms",
+  "receipt_ms",
+  "latency_ms",
+  "block_number",
+  "gas_used",
+  "effective_gas_price",
+  "from_wallet",
+  "to_wallet",
+  "amount",
+  "signed_ms",
+  "tx_type",
+  "submit_path",
+  "endpoint",
+];
+
+/**
+ * Streams one CSV row per transaction while the test runs, so a crash or
+ * Ctrl+C still leaves everything recorded so far on disk.
+ * Timestamps are Unix epoch milliseconds; empty cells mean "not observed"
+ * (e.g. receipt fields in immediate-receipt mode).
+ * A write error (bad path, full disk) must not kill the run: it is kept, later
+ * rows are dropped, and close() rejects with it.
+ */
+export class TxLogWriter {
+  private stream: WriteStream;
+  private error?: Error;
+
+  constructor(private readonly path: string) {
+    this.stream = createWriteStream(path);
+    this.stream.on("error", (err) => {
+      this.error ??= err;
+    });
+    this.stream.write(COLUMNS.join(",") + "\n");
+  }
+
+  write(pairIndex: number, tx: TxRecord): void {
+    if (this.error) return;
+    const row = [
+      pairIndex,
+      // "A→B" is fine in UTF-8 CSV, but plain ASCII is friendlier to spreadsheets
+      tx.direction.replace("→", "->"),
+      tx.nonce,
+      tx.txHash,
+      tx.scheduledMs ?? "",
+      tx.sendStartMs,
+      tx.broadcastMs,
+      tx.receiptMs ?? "",
+      tx.latencyMs,
+      tx.blockNumber ?? "",
+      tx.gasUsed,
+      tx.effectiveGasPrice ?? "",
+      tx.fromWallet,
+      tx.toWallet,
+      tx.amount,
+      tx.signedMs ?? "",
+      tx.txType,
+      tx.submitPath,
+      tx.endpoint,
+    ];
+    this.stream.write(row.join(",") + "\n");
+  }
+
+  close(): Promise<void> {
+    const failed = (err: Error) => new Error(`Could not write transaction log ${this.path}: ${err.message}`);
+    if (this.error) {
+      this.stream.destroy();
+      return Promise.reject(failed(this.error));
+    }
+    return new Promise((resolve, reject) => {
+      this.stream.end((err?: Error | null) => {
+        const error = this.error ?? err;
+        if (error) reject(failed(error));
+        else resolve();
+      });
+    });
+  }
+}
@@ -0,0 +1,124 @@
+import { formatUnits, parseUnits } from "ethers";
+import { formatToken, type TokenInfo } from "./usdc.js";
+
+/** --amount when not given: one cent of a dollar token. */
+export const DEFAULT_AMOUNT = "0.01";
+
+// Log-normal draws are capped this many sigmas above the median, so funding
+// has a finite worst case (~99.9th percentile)
+const LOGNORMAL_CAP_SIGMAS = 3;
+
+/** Transfer amount distribution, in token base units. */
+export type AmountSpec =
+  | { kind: "fixed"; amount: bigint }
+  | { kind: "uniform"; min: bigint; max: bigint }
+  | { kind: "lognormal"; median: bigint; sigma: number; max: bigint };
+
+/**
+ * Parse an --amount value, in whole tokens:
+ *   "0.5"               every transfer sends 0.5
+ *   "uniform:0.01-5"    uniformly between 0.01 and 5
+ *   "lognormal:1,0.8"   log-normal with median 1 and sigma 0.8 (natural log)
+ */
+export function parseAmountSpec(spec: string, decimals: number): AmountSpec {
+  const units = (value: string) => {
+    let parsed: bigint;
+    try {
+      parsed = parseUnits(value.trim(), decimals);
+    } catch {
+      throw new Error(`Invalid --amount "${spec}": "${value}" is not a token amount`);
+    }
+    if (parsed <= 0n) {
+      throw new Error(`Invalid --amount "${spec}": amounts must be positive`);
+    }
+    return parsed;
+  };
+
+  const [kind, args] = spec.includes(":") ? spec.split(":", 2) : ["fixed", spec];
+  switch (kind) {
+    case "fixed":
+      return { kind: "fixed", amount: units(args) };
+    case "uniform": {
+      const [min, max] = args.split("-").map(units);
+      if (max == null || max < min) {
+        throw new Error(`Invalid --amount "${spec}": expected uniform:<min>-<max>`);
+      }
+      return { kind: "uniform", min, max };
+    }
+    case "lognormal": {
+      const [medianArg, sigmaArg] = args.split(",");
+      const sigma = Number(sigmaArg);
+      if (sigmaArg == null || !(sigma > 0)) {
+        throw new Error(`Invalid --amount "${spec}": expected lognormal:<median>,<sigma> with sigma > 0`);
+      }
+      const median = units(medianArg);
+      const max = BigInt(Math.ceil(Number(median) * Math.exp(LOGNORMAL_CAP_SIGMAS * sigma)));
+      return { kind: "lognormal", median, sigma, max };
+    }
+    default:
+      throw new Error(`Invalid --amount "${spec}": use a number, uniform:<min>-<max> or lognormal:<median>,<sigma>`);
+  }
+}
+
+/** Largest amount a single transfer can send. */
+export function maxAmount(spec: AmountSpec): bigint {
+  return spec.kind === "fixed" ? spec.amount : spec.max;
+}
+
+/** Average transfer amount (for funding wallets that pay out). */
+export function meanAmount(spec: AmountSpec): bigint {
+  switch (spec.kind) {
+    case "fixed":
+      return spec.amount;
+    case "uniform":
+      return (spec.min + spec.max) / 2n;
+    case "lognormal":
+      return BigInt(Math.ceil(Number(spec.median) * Math.exp((spec.sigma * spec.sigma) / 2)));
+  }
+}
+
+/** Draws amounts from the distribution; `random` returns floats in [0, 1). */
+export function createAmountSampler(
+  spec: AmountSpec,
+  random: () => number = Math.random
+): () => bigint {
+  switch (spec.kind) {
+    case "fixed":
+      return () => spec.amount;
+    case "uniform": {
+      const span = Number(spec.max - spec.min) + 1;
+      return () => spec.min + BigInt(Math.floor(random() * span));
+    }
+    case "lognormal":
+      return () => {
+        // Box–Muller: a standard normal from two uniforms
+        const z = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+        const drawn = BigInt(Math.round(Number(spec.median) * Math.exp(spec.sigma * z)));
+        return drawn < 1n ? 1n : drawn > spec.max ? spec.max : drawn;
+      };
+  }
+}
+
+/** The --amount argument that reproduces `spec`. */
+export function formatAmountSpec(spec: AmountSpec, decimals: number): string {
+  const units = (v: bigint) => formatUnits(v, decimals).replace(/\.0$/, "");
+  switch (spec.kind) {
+    case "fixed":
+      return units(spec.amount);
+    case "uniform":
+      return `uniform:${units(spec.min)}-${units(spec.max)}`;
+    case "lognormal":
+      return `lognormal:${units(spec.median)},${spec.sigma}`;
+  }
+}
+
+export function describeAmount(spec: AmountSpec, token: TokenInfo): string {
+  switch (spec.kind) {
+    case "fixed":
+      return formatToken(spec.amount, token);
+    case "uniform":
+      return `uniform ${formatToken(spec.min, token)} – ${formatToken(spec.max, token)}`;
+    case "lognormal":
+      return `log-normal, median ${formatToken(spec.median, token)}, σ ${spec.sigma} (capped at ${formatToken(spec.max, token)})`;
+  }
+}
@@ -0,0 +1,48 @@
+const SPARK_CHARS = "▁▂▃▄▅▆▇█";
+
+/**
+ * Render a series of values as a one-line sparkline.
+ * Series longer than `width` are downsampled by averaging adjacent points.
+ */
+export function sparkline(values: number[], width = 60): string {
+  if (values.length === 0) return "";
+
+  let series = values;
+  if (values.length > width) {
+    series = [];
+    const step = values.length / width;
+    for (let i = 0; i < width; i++) {
+      const slice = values.slice(Math.floor(i * step), Math.floor((i + 1) * step));
+      series.push(slice.reduce((a, b) => a + b, 0) / slice.length);
+    }
+  }
+
+  const max = Math.max(...series);
+  if (max <= 0) return SPARK_CHARS[0].repeat(series.length);
+
+  return series
+    .map((v) => {
+      const idx = Math.round((v / max) * (SPARK_CHARS.length - 1));
+      return SPARK_CHARS[Math.max(0, Math.min(SPARK_CHARS.length - 1, idx))];
+    })
+    .join("");
+}
+
+/**
+ * Render labelled values as horizontal bars scaled to the largest value.
+ * Returns one line per row; labels are right-aligned to a common width.
+ */
+export function barChart(
+  rows: { label: string; value: number; note?: string }[],
+  width = 40
+): string[] {
+  const max = Math.max(0, ...rows.map((r) => r.value));
+  const labelWidth = Math.max(0, ...rows.map((r) => r.label.length));
+
+  return rows.map((r) => {
+    // Non-zero values always get at least one cell so they stay visible
+    const len = max > 0 ? Math.round((r.value / max) * width) : 0;
+    const bar = "█".repeat(r.value > 0 ? Math.max(1, len) : 0);
+    return `${r.label.padStart(labelWidth)} │${bar}${r.note ? ` ${r.note}` : ""}`;
+  });
+}
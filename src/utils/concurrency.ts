@@ -1,3 +1,13 @@
+import type { NetworkConfig } from "../config/networks.js";
+
+/**
+ * Wallets to check balances for at once: 10 by default, or a full JSON-RPC
+ * batch when batching is configured (the calls then share a few requests).
+ */
+export function balanceConcurrency(network: NetworkConfig): number {
+  return network.rpcBatch?.maxCount ?? 10;
+}
+
 /**
  * Like Promise.all(items.map(fn)) but limits concurrency to avoid
  * overwhelming public RPC endpoints with too many parallel requests.
@@ -0,0 +1,109 @@
+import {
+  Contract,
+  Signature,
+  TypedDataEncoder,
+  ZeroAddress,
+  ZeroHash,
+  hexlify,
+  randomBytes,
+  type Provider,
+  type TypedDataDomain,
+  type Wallet,
+} from "ethers";
+
+// EIP-3009 plus the views needed to rebuild the token's EIP-712 domain
+export const EIP3009_ABI = [
+  "function transferWithAuthorization(address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, uint8 v, bytes32 r, bytes32 s)",
+  "function authorizationState(address authorizer, bytes32 nonce) view returns (bool)",
+  "function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)",
+  "function name() view returns (string)",
+  "function version() view returns (string)",
+  "function DOMAIN_SEPARATOR() view returns (bytes32)",
+];
+
+const AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "validAfter", type: "uint256" },
+    { name: "validBefore", type: "uint256" },
+    { name: "nonce", type: "bytes32" },
+  ],
+};
+
+// Authorizations are submitted within seconds; an hour leaves room for
+// queued relays without leaving signatures valid indefinitely
+const AUTHORIZATION_VALIDITY_SEC = 3600;
+
+const iface = new Contract(ZeroAddress, EIP3009_ABI).interface;
+
+/**
+ * Look up the token's EIP-712 domain: from eip712Domain() (EIP-5267) when the
+ * token has it, otherwise from name()/version(), checked against
+ * DOMAIN_SEPARATOR(). Throws if the token doesn't support EIP-3009.
+ */
+export async function loadAuthorizationDomain(
+  address: string,
+  provider: Provider
+): Promise<TypedDataDomain> {
+  const token = new Contract(address, EIP3009_ABI, provider);
+  try {
+    await token.authorizationState(ZeroAddress, ZeroHash);
+  } catch {
+    throw new Error(`Token ${address} does not support EIP-3009 (authorizationState() failed)`);
+  }
+
+  try {
+    const d = await token.eip712Domain();
+    return { name: d.name, version: d.version, chainId: d.chainId, verifyingContract: d.verifyingContract };
+  } catch {
+    // Older tokens (including USDC v2) predate EIP-5267
+  }
+
+  const { chainId } = await provider.getNetwork();
+  const [name, version, separator] = await Promise.all([
+    token.name() as Promise<string>,
+    (token.version() as Promise<string>).catch(() => "1"),
+    (token.DOMAIN_SEPARATOR() as Promise<string>).catch(() => null),
+  ]);
+  const domain: TypedDataDomain = { name, version, chainId, verifyingContract: address };
+  if (separator != null && TypedDataEncoder.hashDomain(domain) !== separator) {
+    throw new Error(`Could not reproduce the EIP-712 domain of token ${address} (name "${name}", version "${version}")`);
+  }
+  return domain;
+}
+
+/**
+ * Sign a TransferWithAuthorization with a random nonce and return the
+ * transferWithAuthorization calldata, ready for any wallet to submit.
+ */
+export async function signTransferAuthorization(
+  holder: Wallet,
+  domain: TypedDataDomain,
+  to: string,
+  value: bigint
+): Promise<string> {
+  const authorization = {
+    from: holder.address,
+    to,
+    value,
+    validAfter: 0n,
+    validBefore: BigInt(Math.floor(Date.now() / 1000) + AUTHORIZATION_VALIDITY_SEC),
+    nonce: hexlify(randomBytes(32)),
+  };
+  const { v, r, s } = Signature.from(
+    await holder.signTypedData(domain, AUTHORIZATION_TYPES, authorization)
+  );
+  return iface.encodeFunctionData("transferWithAuthorization", [
+    authorization.from,
+    authorization.to,
+    authorization.value,
+    authorization.validAfter,
+    authorization.validBefore,
+    authorization.nonce,
+    v,
+    r,
+    s,
+  ]);
+}
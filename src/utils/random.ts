@@ -0,0 +1,19 @@
+/**
+ * Small seeded PRNG (mulberry32). Not cryptographic — only for reproducible
+ * test inputs. Returns floats in [0, 1), like Math.random.
+ */
+export function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** A fresh 32-bit seed, for runs that didn't ask for one. */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 2 ** 32);
+}
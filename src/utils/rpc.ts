@@ -1,51 +1,118 @@
 /**
  * Direct JSON-RPC via undici Pool — bypasses ethers so all callers share
- * a single HTTP/2-capable connection pool (keep-alive, multiplexing).
+ * one HTTP/2-capable connection pool per endpoint (keep-alive, multiplexing).
  */
 import { Pool } from "undici";
 
-let _pool: Pool | null = null;
-let _poolPath = "/";
+type RpcRequest = { jsonrpc: "2.0"; method: string; params: unknown[]; id: number };
+
+type Queued = { request: RpcRequest; resolve: (v: any) => void; reject: (e: Error) => void };
+
+const _pools = new Map<string, { pool: Pool; path: string }>();
 let _rpcId = 0;
 
-export async function rpcSendRawTx(
-  rpcUrl: string,
-  signedTx: string
-): Promise<any> {
-  if (!_pool) {
+// Raw tx batching (--batch-raw): sends to one endpoint queued within stallMs
+// of each other go out as one batch request of at most maxCount
+let _batch: { maxCount: number; stallMs: number } | null = null;
+const _queues = new Map<string, { items: Queued[]; timer: ReturnType<typeof setTimeout> | null }>();
+
+export function setRawTxBatching(batch: { maxCount: number; stallMs: number } | null): void {
+  _batch = batch;
+}
+
+async function post(rpcUrl: string, body: RpcRequest | RpcRequest[]): Promise<any> {
+  let entry = _pools.get(rpcUrl);
+  if (!entry) {
     const url = new URL(rpcUrl);
-    _pool = new Pool(url.origin, {
-      allowH2: true,
-      connections: 256,
-      pipelining: 1,
-    });
-    _poolPath = url.pathname || "/";
+    entry = {
+      pool: new Pool(url.origin, {
+        allowH2: true,
+        connections: 256,
+        pipelining: 1,
+      }),
+      path: url.pathname || "/",
+    };
+    _pools.set(rpcUrl, entry);
   }
 
-  const { statusCode, body } = await _pool.request({
+  const { statusCode, body: responseBody } = await entry.pool.request({
     method: "POST",
-    path: _poolPath,
+    path: entry.path,
     headers: { "content-type": "application/json" },
-    body: JSON.stringify({
-      jsonrpc: "2.0",
-      method: "eth_sendRawTransaction",
-      params: [signedTx],
-      id: ++_rpcId,
-    }),
+    body: JSON.stringify(body),
   });
 
-  const text = await body.text();
-  let json: any;
+  const text = await responseBody.text();
   try {
-    json = JSON.parse(text);
+    return JSON.parse(text);
   } catch {
     throw new Error(
       `RPC returned non-JSON (HTTP ${statusCode}): ${text.slice(0, 200)}`
     );
   }
+}
+
+function unwrap(json: any): any {
   if (json.error) {
     const msg = json.error.message || JSON.stringify(json.error);
     throw new Error(msg);
   }
   return json.result;
 }
+
+function flush(rpcUrl: string): void {
+  const queue = _queues.get(rpcUrl)!;
+  if (queue.timer) {
+    clearTimeout(queue.timer);
+    queue.timer = null;
+  }
+  const batch = queue.items;
+  queue.items = [];
+  post(rpcUrl, batch.map((b) => b.request)).then(
+    (json) => {
+      // Responses may come back in any order; a single error object means
+      // the endpoint rejected the batch as a whole
+      const byId = new Map<number, any>(Array.isArray(json) ? json.map((r) => [r.id, r]) : []);
+      for (const { request, resolve, reject } of batch) {
+        const response = byId.get(request.id) ?? (Array.isArray(json) ? null : json);
+        if (!response) {
+          reject(new Error(`RPC batch response is missing id ${request.id}`));
+          continue;
+        }
+        try {
+          resolve(unwrap(response));
+        } catch (err: any) {
+          reject(err);
+        }
+      }
+    },
+    (err) => batch.forEach((b) => b.reject(err))
+  );
+}
+
+export async function rpcSendRawTx(
+  rpcUrl: string,
+  signedTx: string
+): Promise<any> {
+  const request: RpcRequest = {
+    jsonrpc: "2.0",
+    method: "eth_sendRawTransaction",
+    params: [signedTx],
+    id: ++_rpcId,
+  };
+  if (!_batch || _batch.maxCount <= 1) {
+    return unwrap(await post(rpcUrl, request));
+  }
+
+  const { maxCount, stallMs } = _batch;
+  let queue = _queues.get(rpcUrl);
+  if (!queue) {
+    queue = { items: [], timer: null };
+    _queues.set(rpcUrl, queue);
+  }
+  return new Promise((resolve, reject) => {
+    queue.items.push({ request, resolve, reject });
+    if (queue.items.length >= maxCount) flush(rpcUrl);
+    else queue.timer ??= setTimeout(() => flush(rpcUrl), stallMs);
+  });
+}
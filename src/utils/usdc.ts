@@ -1,14 +1,21 @@
-import { Contract, type Signer, type Provider } from "ethers";
+import { Contract, formatUnits, type Signer, type Provider } from "ethers";
 
 export const ERC20_ABI = [
   "function transfer(address to, uint256 amount) returns (bool)",
+  "function transferFrom(address from, address to, uint256 amount) returns (bool)",
   "function approve(address spender, uint256 amount) returns (bool)",
+  "function allowance(address owner, address spender) view returns (uint256)",
   "function balanceOf(address owner) view returns (uint256)",
   "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)",
 ];
 
-export const USDC_DECIMALS = 6;
-export const USDC_CENT = BigInt(10_000); // $0.01 in 6-decimal units
+/** The ERC-20 being transferred (USDC unless --token says otherwise). */
+export type TokenInfo = {
+  address: string;
+  symbol: string;
+  decimals: number;
+};
 
 export function getUsdcContract(
   address: string,
@@ -17,8 +24,22 @@ export function getUsdcContract(
   return new Contract(address, ERC20_ABI, signerOrProvider);
 }
 
-export function formatUsdc(amount: bigint): string {
-  const whole = amount / BigInt(10 ** USDC_DECIMALS);
-  const frac = amount % BigInt(10 ** USDC_DECIMALS);
-  return `$${whole}.${frac.toString().padStart(USDC_DECIMALS, "0")}`;
+/** Read the token's symbol and decimals from the contract. */
+export async function loadToken(address: string, provider: Provider): Promise<TokenInfo> {
+  const token = getUsdcContract(address, provider);
+  try {
+    const [symbol, decimals] = await Promise.all([
+      token.symbol() as Promise<string>,
+      token.decimals() as Promise<bigint>,
+    ]);
+    return { address, symbol, decimals: Number(decimals) };
+  } catch {
+    throw new Error(`${address} does not look like an ERC-20 token (symbol()/decimals() failed)`);
+  }
+}
+
+/** "1234.5 EURC" — all significant decimals, no trailing zeros. */
+export function formatToken(amount: bigint, token: Pick<TokenInfo, "symbol" | "decimals">): string {
+  const value = formatUnits(amount, token.decimals).replace(/\.0$/, "");
+  return `${value} ${token.symbol}`;
 }
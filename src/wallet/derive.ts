@@ -1,9 +1,13 @@
 import { Mnemonic, HDNodeWallet } from "ethers";
+import type { Topology } from "./topology.js";
 
-export type WalletPair = {
+/** The wallets one tester sends from and to. */
+export type WalletGroup = {
   index: number;
-  sender: HDNodeWallet;
-  receiver: HDNodeWallet;
+  topology: Topology;
+  /** Positions in the derived set; the first wallet starts with the USDC. */
+  walletIndices: number[];
+  wallets: HDNodeWallet[];
 };
 
 export function deriveWallets(
@@ -24,14 +28,20 @@ export function deriveWallets(
   return wallets;
 }
 
-export function pairWallets(wallets: HDNodeWallet[]): WalletPair[] {
-  const pairs: WalletPair[] = [];
-  for (let i = 0; i < wallets.length; i += 2) {
-    pairs.push({
-      index: i / 2,
-      sender: wallets[i],
-      receiver: wallets[i + 1],
+export function groupWallets(
+  wallets: HDNodeWallet[],
+  topology: Topology,
+  groupSize: number
+): WalletGroup[] {
+  const groups: WalletGroup[] = [];
+  for (let i = 0; i < wallets.length; i += groupSize) {
+    const walletIndices = Array.from({ length: groupSize }, (_, k) => i + k);
+    groups.push({
+      index: i / groupSize,
+      topology,
+      walletIndices,
+      wallets: walletIndices.map((k) => wallets[k]),
     });
   }
-  return pairs;
+  return groups;
 }
@@ -6,16 +6,20 @@ import {
   formatEther,
 } from "ethers";
 import ora from "ora";
-import { getUsdcContract, USDC_CENT, formatUsdc } from "../utils/usdc.js";
+import { getUsdcContract, formatToken, type TokenInfo } from "../utils/usdc.js";
+import { maxAmount, meanAmount, type AmountSpec } from "../utils/amount.js";
 import {
   isDisperseAvailable,
   getDisperseContract,
   DISPERSE_ADDRESS,
 } from "../utils/disperse.js";
 import { confirm, choose } from "../utils/prompt.js";
-import { pMap } from "../utils/concurrency.js";
+import { balanceConcurrency, pMap } from "../utils/concurrency.js";
 import * as log from "../utils/logger.js";
 import type { NetworkConfig } from "../config/networks.js";
+import { walletPlan, type TopologyOptions, type WalletPlan } from "./topology.js";
+import { DEFAULT_APPROVE_GAS_LIMIT, DEFAULT_TRANSFER_FROM_GAS_LIMIT } from "../test/tester.js";
+import type { TxMix, TxType } from "../test/mix.js";
 import type { GasLimits } from "../cli.js";
 
 // Gas estimate for disperseEther call (base + per-recipient)
@@ -44,25 +48,22 @@ type FundingItem = {
 /**
  * Estimate the ETH required per wallet for the full test duration plus cleanup.
  *
- * Per wallet in a pair:
- *   - Test txs: the pair sends ~(durationMs / blockTimeMs) txs total,
- *     each wallet sends roughly half of those
- *   - Return-to-sender tx: 1 (in case USDC ends on the odd wallet)
+ * Per wallet:
+ *   - Test txs: `testTxCount` (see plannedTestTxs) at `testTxGasLimit` each
+ *     (an ERC-20 transfer unless relayed or mixed)
+ *   - Return-to-sender tx: 1 (in case USDC ends away from the first wallet)
  *   - Cleanup USDC sweep: 1 ERC-20 transfer back to master
  *   - Cleanup ETH sweep: 1 simple ETH transfer back to master
  *   - 20% buffer on top
  */
 function estimateEthPerWallet(
   network: NetworkConfig,
-  durationSec: number,
   gasPrice: bigint,
-  gasLimits: GasLimits
+  gasLimits: GasLimits,
+  testTxCount: number,
+  testTxGasLimit: bigint = gasLimits.erc20Transfer
 ): bigint {
-  const durationMs = BigInt(durationSec) * 1000n;
-  const blockTimeMs = BigInt(network.estimatedBlockTimeMs);
-
-  // Txs this wallet will send during the test (half of pair's total)
-  const testTxs = durationMs / blockTimeMs / 2n + 1n; // +1 to round up
+  const testTxs = BigInt(testTxCount);
 
   // Extra txs: possible return-to-sender + USDC sweep + ETH/gas-token sweep
   const returnTx = 1n;
@@ -71,7 +72,8 @@ function estimateEthPerWallet(
 
   const totalTxs = testTxs + returnTx + usdcSweepTx + ethSweepTx;
 
-  const totalErc20Gas = (testTxs + returnTx + usdcSweepTx) * gasLimits.erc20Transfer;
+  const totalErc20Gas =
+    testTxs * testTxGasLimit + (returnTx + usdcSweepTx) * gasLimits.erc20Transfer;
   // On gas-token chains the "ETH sweep" is also an ERC-20 transfer
   const sweepGas = network.gasTokenAddress ? gasLimits.erc20Transfer : gasLimits.ethTransfer;
   const totalEthGas = ethSweepTx * sweepGas;
@@ -85,13 +87,44 @@ function estimateEthPerWallet(
   return (baseAmount * BUFFER_NUMERATOR) / BUFFER_DENOMINATOR;
 }
 
+/** Transfers a wallet sending `sendShare` txs per block makes over the test. */
+function expectedTestTxs(network: NetworkConfig, durationSec: number, sendShare: number): number {
+  return Math.floor(((durationSec * 1000) / network.estimatedBlockTimeMs) * sendShare);
+}
+
+/**
+ * Txs a wallet sends during the test: exact in burst mode, otherwise about
+ * `sendShare` per block for the test duration — in a ping-pong pair each
+ * wallet sends roughly half of the pair's ~(durationMs / blockTimeMs) txs.
+ */
+function plannedTestTxs(plan: WalletPlan, network: NetworkConfig, durationSec: number): number {
+  return plan.testTxs ?? expectedTestTxs(network, durationSec, plan.sendShare) + 1; // +1 to round up
+}
+
+/** Weighted average gas limit of one transaction drawn from `mix`. */
+function mixGasLimit(mix: TxMix, gasLimits: GasLimits): bigint {
+  const limits: Record<TxType, bigint> = {
+    transfer: gasLimits.erc20Transfer,
+    approve: gasLimits.approve ?? DEFAULT_APPROVE_GAS_LIMIT,
+    transferFrom: gasLimits.transferFrom ?? DEFAULT_TRANSFER_FROM_GAS_LIMIT,
+    native: gasLimits.ethTransfer,
+  };
+  const total = mix.reduce((s, m) => s + m.weight, 0);
+  const weighted = mix.reduce((s, m) => s + Number(limits[m.type]) * m.weight, 0);
+  return BigInt(Math.ceil(weighted / total));
+}
+
 export async function checkAndFund(
   wallets: HDNodeWallet[],
   masterWallet: Wallet,
   provider: JsonRpcProvider,
   network: NetworkConfig,
   durationSec: number,
-  gasLimits: GasLimits
+  gasLimits: GasLimits,
+  topology: TopologyOptions,
+  token: TokenInfo,
+  amount: AmountSpec,
+  mix?: TxMix
 ): Promise<void> {
   const spinner = ora("Checking wallet balances and gas prices...").start();
 
@@ -107,10 +140,41 @@ export async function checkAndFund(
   const feeData = await provider.getFeeData();
   const gasPrice = feeData.gasPrice ?? feeData.maxFeePerGas ?? 50_000_000_000n;
 
-  const minEthPerWallet = estimateEthPerWallet(network, durationSec, gasPrice, gasLimits);
+  // Per-wallet targets follow the wallet's role in the topology. Wallets that
+  // neither send nor end up holding USDC (pipelined receivers) need nothing,
+  // and neither do relay-mode holders: relayers pay their gas.
+  const plans = wallets.map((_, i) => walletPlan(topology, i));
+  // Gas per test tx: relayers send transferWithAuthorization calls, and a
+  // mixed workload averages its transaction types by weight
+  const testTxGasLimit = topology.relay
+    ? (gasLimits.authorizedTransfer ?? gasLimits.erc20Transfer)
+    : mix
+      ? mixGasLimit(mix, gasLimits)
+      : gasLimits.erc20Transfer;
+  const targets = plans.map((p) => ({
+    eth:
+      p.paysGas && (p.sendShare > 0 || p.receivesUsdc)
+        ? estimateEthPerWallet(network, gasPrice, gasLimits, plannedTestTxs(p, network, durationSec), testTxGasLimit)
+        : 0n,
+    // A fanout hot wallet pays every transfer out of its own balance and never
+    // gets it back; otherwise the first wallet must cover the largest transfer
+    usdc: !p.holdsUsdc
+      ? 0n
+      : p.spendsUsdc
+        ? meanAmount(amount) * BigInt(expectedTestTxs(network, durationSec, p.sendShare) + 1)
+        : maxAmount(amount),
+  }));
 
   log.info(`Current gas price: ${(Number(gasPrice) / 1e9).toFixed(4)} gwei`);
-  log.info(`Estimated ${gasLabel} per wallet: ${formatEther(minEthPerWallet)}`);
+  const perRole = new Map<string, bigint>();
+  plans.forEach((p, i) => perRole.set(p.role, targets[i].eth));
+  if (new Set(perRole.values()).size === 1) {
+    log.info(`Estimated ${gasLabel} per wallet: ${formatEther(targets[0].eth)}`);
+  } else {
+    for (const [role, eth] of perRole) {
+      log.info(`Estimated ${gasLabel} per ${role} wallet: ${formatEther(eth)}`);
+    }
+  }
   console.log();
 
   const usdc = getUsdcContract(network.usdcAddress, provider);
@@ -125,21 +189,21 @@ export async function checkAndFund(
       ]);
       return { address: w.address, ethBalance, usdcBalance };
     },
-    10
+    balanceConcurrency(network)
   );
 
   spinner.stop();
 
   // Display current balances
-  const balanceRows: string[][] = [["Wallet", "Address", `${gasLabel} Balance`, "USDC Balance"]];
+  const balanceRows: string[][] = [["Wallet", "Address", `${gasLabel} Balance`, `${token.symbol} Balance`]];
   for (let i = 0; i < balances.length; i++) {
     const b = balances[i];
-    const role = i % 2 === 0 ? "sender" : "receiver";
+    const role = plans[i].role;
     balanceRows.push([
       `#${i} ${role}`,
       b.address,
       formatEther(b.ethBalance),
-      formatUsdc(b.usdcBalance),
+      formatToken(b.usdcBalance, token),
     ]);
   }
   log.table(balanceRows);
@@ -153,15 +217,16 @@ export async function checkAndFund(
 
     let ethNeeded = 0n;
     let usdcNeeded = 0n;
+    const target = targets[i];
 
-    if (ethBalance < minEthPerWallet) {
+    if (ethBalance < target.eth) {
       // Fund the full target amount, not just the delta — avoids dust top-ups
-      ethNeeded = minEthPerWallet;
+      ethNeeded = target.eth;
     }
 
-    // Even wallets (senders) need USDC
-    if (i % 2 === 0 && usdcBalance < USDC_CENT) {
-      usdcNeeded = USDC_CENT;
+    // The first wallet of each tester starts with the token
+    if (usdcBalance < target.usdc) {
+      usdcNeeded = target.usdc;
     }
 
     if (ethNeeded > 0n || usdcNeeded > 0n) {
@@ -181,16 +246,16 @@ export async function checkAndFund(
   const totalUsdc = plan.reduce((sum, item) => sum + item.usdcNeeded, 0n);
 
   log.info(`${gasLabel} needed:  ${formatEther(totalEth)} across ${plan.filter((p) => p.ethNeeded > 0n).length} wallets`);
-  log.info(`USDC needed: ${formatUsdc(totalUsdc)} across ${plan.filter((p) => p.usdcNeeded > 0n).length} wallets`);
+  log.info(`${token.symbol} needed: ${formatToken(totalUsdc, token)} across ${plan.filter((p) => p.usdcNeeded > 0n).length} wallets`);
   console.log();
 
-  const rows: string[][] = [["Wallet", "Address", `${gasLabel} Needed`, "USDC Needed"]];
+  const rows: string[][] = [["Wallet", "Address", `${gasLabel} Needed`, `${token.symbol} Needed`]];
   for (const item of plan) {
     rows.push([
       `#${item.index}`,
       item.address,
       item.ethNeeded > 0n ? formatEther(item.ethNeeded) : "—",
-      item.usdcNeeded > 0n ? formatUsdc(item.usdcNeeded) : "—",
+      item.usdcNeeded > 0n ? formatToken(item.usdcNeeded, token) : "—",
     ]);
   }
   log.table(rows);
@@ -256,9 +321,9 @@ export async function checkAndFund(
   }
   if (masterUsdc < totalUsdc) {
     log.error(
-      `Master wallet has ${formatUsdc(masterUsdc)} USDC but needs ${formatUsdc(totalUsdc)}`
+      `Master wallet has ${formatToken(masterUsdc, token)} but needs ${formatToken(totalUsdc, token)}`
     );
-    throw new Error("Insufficient USDC in master wallet");
+    throw new Error(`Insufficient ${token.symbol} in master wallet`);
   }
 
   const ok = await confirm("Proceed with funding these wallets?");
@@ -309,7 +374,8 @@ export async function checkAndFund(
         ethItems,
         usdcItems,
         fundSpinner,
-        gasToken
+        gasToken,
+        token.symbol
       );
     } else {
       await fundIndividually(
@@ -320,7 +386,8 @@ export async function checkAndFund(
         usdcItems,
         fundSpinner,
         gasLimits,
-        gasToken
+        gasToken,
+        token.symbol
       );
     }
   } catch (err: any) {
@@ -338,7 +405,7 @@ export async function checkAndFund(
   }
 
   fundSpinner.succeed(
-    `Funded ${plan.length} wallet(s): ${ethItems.length} ${gasLabel} + ${usdcItems.length} USDC transfers` +
+    `Funded ${plan.length} wallet(s): ${ethItems.length} ${gasLabel} + ${usdcItems.length} ${token.symbol} transfers` +
       (disperseAvailable ? " (batched via Disperse)" : "")
   );
 }
@@ -354,7 +421,8 @@ async function fundWithDisperse(
   ethItems: FundingItem[],
   usdcItems: FundingItem[],
   spinner: ReturnType<typeof ora>,
-  gasToken: Contract | null
+  gasToken: Contract | null,
+  symbol: string
 ): Promise<void> {
   const disperse = getDisperseContract(masterWallet);
   let nonce = await provider.getTransactionCount(masterWallet.address);
@@ -402,7 +470,7 @@ async function fundWithDisperse(
     const totalUsdc = values.reduce((sum, v) => sum + v, 0n);
 
     // Approve Disperse contract to spend USDC
-    spinner.text = "Approving Disperse contract for USDC...";
+    spinner.text = `Approving Disperse contract for ${symbol}...`;
     const usdcContract = getUsdcContract(network.usdcAddress, masterWallet);
     const approveTx = await (usdcContract.approve as any)(
       DISPERSE_ADDRESS,
@@ -412,7 +480,7 @@ async function fundWithDisperse(
     await approveTx.wait();
 
     // Batch USDC sends
-    spinner.text = `Sending batch USDC to ${usdcItems.length} wallet(s) via Disperse...`;
+    spinner.text = `Sending batch ${symbol} to ${usdcItems.length} wallet(s) via Disperse...`;
     nonce = await provider.getTransactionCount(masterWallet.address);
     const tokenTx = await (disperse.disperseToken as any)(
       network.usdcAddress,
@@ -724,7 +792,8 @@ async function fundIndividually(
   usdcItems: FundingItem[],
   spinner: ReturnType<typeof ora>,
   _gasLimits: GasLimits,
-  gasToken: Contract | null
+  gasToken: Contract | null,
+  symbol: string
 ): Promise<void> {
   // Let ethers auto-detect tx type, gas price, and gas limit.
   // Funding only runs once so the extra estimateGas/getFeeData RPCs are fine.
@@ -770,7 +839,7 @@ async function fundIndividually(
   const usdcContract = getUsdcContract(network.usdcAddress, masterWallet);
   for (let i = 0; i < usdcItems.length; i++) {
     const item = usdcItems[i];
-    spinner.text = `Sending USDC transfer ${i + 1}/${usdcItems.length}...`;
+    spinner.text = `Sending ${symbol} transfer ${i + 1}/${usdcItems.length}...`;
     for (let attempt = 0; attempt <= FUND_MAX_RETRIES; attempt++) {
       try {
         const tx = await (usdcContract.transfer as any)(
@@ -789,7 +858,7 @@ async function fundIndividually(
           continue;
         }
         throw new Error(
-          `USDC transfer ${i + 1}/${usdcItems.length} to wallet #${item.index} (${item.address}) failed after ${attempt + 1} attempts: ${extractError(err)}`
+          `${symbol} transfer ${i + 1}/${usdcItems.length} to wallet #${item.index} (${item.address}) failed after ${attempt + 1} attempts: ${extractError(err)}`
         );
       }
     }
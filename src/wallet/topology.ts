@@ -0,0 +1,140 @@
+export const TOPOLOGIES = ["pair", "ring", "fanout", "mesh"] as const;
+export type Topology = (typeof TOPOLOGIES)[number];
+
+/** Wallets per tester when --group-size is not given. */
+export const DEFAULT_GROUP_SIZE: Record<Topology, number> = {
+  pair: 2,
+  ring: 4,
+  fanout: 8,
+  mesh: 4,
+};
+
+export type TopologyOptions = {
+  topology: Topology;
+  /** Wallets per tester. */
+  groupSize: number;
+  /** Pipelined mode (--inflight): sends kept in flight by the first wallet. */
+  inflight?: number;
+  /**
+   * Paced runs (--rate, traffic shaping, --find-max): the first wallet sends
+   * every slot open-loop, `sendShare` per block time on average.
+   */
+  paced?: { sendShare: number };
+  /**
+   * Relay mode (--relay): the relayer wallets are derived after the testers'
+   * wallets and pay the gas for every transfer.
+   */
+  relay?: { testers: number; relayers: number };
+  /**
+   * Mixed workloads (--mix): share of transactions that are transferFroms,
+   * which the recipient sends.
+   */
+  pullShare?: number;
+  /** Burst mode (--burst): transfers pre-signed for every wallet. */
+  burst?: number;
+};
+
+/** What one derived wallet does during a run, for funding and pre-flight. */
+export type WalletPlan = {
+  /** Short label for wallet listings. */
+  role: string;
+  /**
+   * Transactions this wallet signs per block time, on average — 0.5 for each
+   * side of a ping-pong pair, 0 for wallets that only receive.
+   */
+  sendShare: number;
+  /** Exact transactions sent when known up front (burst mode). */
+  testTxs?: number;
+  /** Starts the run holding its tester's USDC. */
+  holdsUsdc: boolean;
+  /** Gives USDC away for good (fanout), so it needs a cent per transfer. */
+  spendsUsdc: boolean;
+  /** May hold USDC after the run and need gas for the cleanup sweep. */
+  receivesUsdc: boolean;
+  /** Broadcasts its own transactions (false for holders in relay mode). */
+  paysGas: boolean;
+};
+
+/**
+ * Role of the wallet at `walletIndex` in the derived set. Testers own
+ * consecutive runs of `groupSize` wallets; the first wallet of each group is
+ * funded with the USDC.
+ *
+ * - pair:   A↔B ping-pong (pipelined or paced: A sends to itself, B is unused)
+ * - ring:   USDC circulates through every wallet of the group in turn
+ * - fanout: the first wallet is a hot wallet paying the rest round-robin
+ * - mesh:   USDC hops to random wallets anywhere in the derived set
+ *
+ * In relay mode the holders only sign; the relayers after them send every
+ * transfer, shared evenly. In burst mode every wallet sends its own
+ * pre-signed self-transfers, whatever its place in the group.
+ */
+export function walletPlan(opts: TopologyOptions, walletIndex: number): WalletPlan {
+  const { relay, burst } = opts;
+  if (burst != null) {
+    return {
+      role: "burst",
+      sendShare: 0,
+      testTxs: burst,
+      holdsUsdc: true,
+      spendsUsdc: false,
+      receivesUsdc: true,
+      paysGas: true,
+    };
+  }
+  if (relay && walletIndex >= relay.testers * opts.groupSize) {
+    return {
+      role: "relayer",
+      sendShare: relay.testers / relay.relayers,
+      holdsUsdc: false,
+      spendsUsdc: false,
+      receivesUsdc: false,
+      paysGas: true,
+    };
+  }
+  return { ...groupPlan(opts, walletIndex), paysGas: !relay };
+}
+
+function groupPlan(opts: TopologyOptions, walletIndex: number): Omit<WalletPlan, "paysGas"> {
+  const { topology, groupSize, inflight, paced, pullShare = 0 } = opts;
+  const first = walletIndex % groupSize === 0;
+
+  switch (topology) {
+    case "pair":
+      if (first) {
+        return { role: "sender", sendShare: paced?.sendShare ?? inflight ?? 0.5, holdsUsdc: true, spendsUsdc: false, receivesUsdc: true };
+      }
+      return inflight != null || paced
+        ? { role: "unused", sendShare: 0, holdsUsdc: false, spendsUsdc: false, receivesUsdc: false }
+        : { role: "receiver", sendShare: 0.5, holdsUsdc: false, spendsUsdc: false, receivesUsdc: true };
+    case "ring":
+      return {
+        role: first ? "ring head" : "ring",
+        sendShare: 1 / groupSize,
+        holdsUsdc: first,
+        spendsUsdc: false,
+        receivesUsdc: true,
+      };
+    case "fanout":
+      return first
+        ? { role: "hot", sendShare: paced?.sendShare ?? inflight ?? 1, holdsUsdc: true, spendsUsdc: true, receivesUsdc: true }
+        : {
+            role: "recipient",
+            // Recipients only send when they pull a payout with transferFrom
+            sendShare: pullShare / (groupSize - 1),
+            holdsUsdc: false,
+            spendsUsdc: false,
+            receivesUsdc: true,
+          };
+    case "mesh":
+      // Hops are random, so some wallets send more than their 1/groupSize
+      // share; fund for twice that
+      return {
+        role: first ? "mesh home" : "mesh",
+        sendShare: Math.min(1, 2 / groupSize),
+        holdsUsdc: first,
+        spendsUsdc: false,
+        receivesUsdc: true,
+      };
+  }
+}